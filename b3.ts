@@ -1,23 +1,33 @@
 import axios from "axios";
+import { intervalToMs } from "./utils/interval";
+import { resampleSessionKlines } from "./utils/resample";
 
 const BRAPI_BASE = "https://brapi.dev/api";
 
+// Intervalos que a brapi entrega nativamente (formato Binance -> brapi)
 const INTERVAL_MAP: Record<string, string> = {
   "1m": "1m",
   "2m": "2m",
-  "3m": "5m",
   "5m": "5m",
   "15m": "15m",
   "30m": "30m",
   "1h": "1h",
-  "2h": "60m",
-  "4h": "60m",
   "1d": "1d",
-  "3d": "1d",
   "1w": "1wk",
   "1M": "1mo",
 };
 
+// Sem equivalente na brapi: busca o intervalo nativo mais fino que divide o pedido e agrega
+const AGGREGATE_FROM: Record<string, string> = {
+  "3m": "1m",
+  "2h": "1h",
+  "4h": "1h",
+  "6h": "1h",
+  "8h": "1h",
+  "12h": "1h",
+  "3d": "1d",
+};
+
 function pickRange(interval: string, limit: number): string {
   const i = interval.toLowerCase();
   if (i.endsWith("m") || i.endsWith("h")) {
@@ -49,18 +59,6 @@ function pickRange(interval: string, limit: number): string {
   return "max";
 }
 
-function intervalMs(binanceInterval: string): number {
-  const m = binanceInterval.toLowerCase();
-  const num = parseInt(m, 10);
-  if (m.endsWith("m")) return num * 60_000;
-  if (m.endsWith("h")) return num * 60 * 60_000;
-  if (m === "1d") return 24 * 60 * 60_000;
-  if (m === "3d") return 3 * 24 * 60 * 60_000;
-  if (m === "1w") return 7 * 24 * 60 * 60_000;
-  if (m === "1m" || m === "1mo") return 30 * 24 * 60 * 60_000;
-  return 24 * 60 * 60_000;
-}
-
 type Row = {
   openTime: number;
   open: number;
@@ -71,16 +69,13 @@ type Row = {
   closeTime: number;
 };
 
-export async function getKlines(
+async function fetchHistory(
   symbol: string,
   interval: string,
-  limit = 500,
+  limit: number,
   token?: string,
 ): Promise<Row[]> {
   const mapped = INTERVAL_MAP[interval];
-  if (!mapped) {
-    throw new Error(`Intervalo não suportado: ${interval}`);
-  }
   const range = pickRange(interval, limit);
 
   const url = `${BRAPI_BASE}/quote/${encodeURIComponent(symbol)}?range=${range}&interval=${mapped}`;
@@ -91,7 +86,7 @@ export async function getKlines(
   const res = (data?.results && data.results[0]) || {};
   const hist: any[] = Array.isArray(res.historicalDataPrice) ? res.historicalDataPrice : [];
 
-  const dur = intervalMs(interval);
+  const dur = intervalToMs(interval);
 
   const rows: Row[] = hist.slice(-limit).map((k) => {
     const openTime = (k.date ?? 0) * 1000;
@@ -108,3 +103,26 @@ export async function getKlines(
 
   return rows;
 }
+
+export async function getKlines(
+  symbol: string,
+  interval: string,
+  limit = 500,
+  token?: string,
+): Promise<Row[]> {
+  if (INTERVAL_MAP[interval]) return fetchHistory(symbol, interval, limit, token);
+
+  const source = AGGREGATE_FROM[interval];
+  if (!source) {
+    throw new Error(
+      `Intervalo não suportado: ${interval} (a brapi não o fornece e não há intervalo nativo que o divida)`,
+    );
+  }
+  // +1 barra para compensar o primeiro bucket incompleto, descartado na agregação
+  const factor = Math.ceil(intervalToMs(interval) / intervalToMs(source));
+  const rows = await fetchHistory(symbol, source, (limit + 1) * factor, token);
+  // buckets ancorados no pregão (não em UTC) e 3d contado em pregões
+  return resampleSessionKlines(rows, interval, { baseInterval: source, session: "b3" })
+    .slice(-limit)
+    .map(({ partial: _partial, ...row }) => row);
+}
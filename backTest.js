@@ -1,5 +1,7 @@
-import fs from "fs";
+import { toCandlesOut } from "./get-candles";
+import { getKlines as getKlinesCSV } from "./loadCandlesFromCSV";
 import { EnsembleAdaptive } from "./utils/ensemble-multi-tf";
+import { resampleCandles } from "./utils/resample";
 
 // ---------------- CONFIG ----------------
 // Configuração idêntica à do seu bot para garantir a precisão do backtest.
@@ -14,6 +16,8 @@ const config = {
 };
 
 const buyOrSel = (candles1m) => {
+  // 15m derivado do próprio feed base (antes o 1m era repassado como se fosse 15m)
+  const candles15m = resampleCandles(candles1m, process.env.INTERVAL, "15m");
   const ens = new EnsembleAdaptive();
 
   // (opcional) ajuste baseline
@@ -22,8 +26,8 @@ const buyOrSel = (candles1m) => {
   // 2) decida com múltiplos TFs (ex.: 5m exec, 15m/1h confirmação, 1D regime)
   const out = ens.decision({
     timeframes: [
-      { label: "1m", candles: candles1m },
-      { label: "15m", candles: candles1m },
+      { label: process.env.INTERVAL, candles: candles1m },
+      { label: "15m", candles: candles15m },
       // { label: "1h", candles: candles1h },
       // { label: "1D", candles: candles1D },
     ],
@@ -43,26 +47,14 @@ const buyOrSel = (candles1m) => {
 
 // ---------------- LÓGICA DO BACKTEST ----------------
 
-function runBacktest() {
-  // Carrega os dados do arquivo CSV
-  const csvFilePath = `${process.env.SYMBOL}_${process.env.INTERVAL}.csv`;
+async function runBacktest() {
+  // Carrega os dados do arquivo CSV (${SYMBOL}_${INTERVAL}.csv)
   let ohlcv;
   try {
-    const csvData = fs.readFileSync(csvFilePath, "utf8");
-    const lines = csvData.trim().split("\n").slice(1); // Ignora o cabeçalho
-    ohlcv = lines.map((line) => {
-      const [open, high, low, close, volume, closeTime] = line.split(",");
-      return {
-        open: parseFloat(open),
-        high: parseFloat(high),
-        low: parseFloat(low),
-        close: parseFloat(close),
-        volume: parseFloat(volume),
-        timestamp: parseInt(closeTime, 10),
-      };
-    });
+    const rows = await getKlinesCSV(process.env.SYMBOL, process.env.INTERVAL, Infinity);
+    ohlcv = rows.map((r) => ({ ...r, timestamp: r.closeTime }));
   } catch (err) {
-    console.error(`Erro ao ler ou processar o arquivo ${csvFilePath}:`, err.message);
+    console.error("Erro ao ler ou processar o arquivo CSV:", err.message);
     process.exit(1); // Encerra o script se o arquivo não for encontrado ou mal formatado
   }
 
@@ -80,8 +72,8 @@ function runBacktest() {
   // Itera por cada candle para simular a passagem do tempo
   for (let i = 35; i < closes.length; i++) {
     // Começa após ter dados suficientes para os indicadores
-    const currentCloses = closes.slice(0, i + 1);
-    const result = buyOrSel(currentCloses);
+    const currentCandles = toCandlesOut(ohlcv.slice(0, i + 1));
+    const result = buyOrSel(currentCandles);
     const currentCalnde = closes[i];
 
     // LÓGICA DE COMPRA 💡
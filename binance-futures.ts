@@ -0,0 +1,256 @@
+import qs from "qs";
+import {
+  BINANCE_FUT,
+  binanceHttp,
+  dedupeKlines,
+  klinesWeight,
+  parseKline,
+  resolveSymbol,
+  type Kline,
+} from "./binance.js";
+import { intervalToMs } from "./utils/interval";
+
+export type FundingRatePoint = { time: number; fundingRate: number; markPrice?: number };
+export type OpenInterestPoint = { time: number; openInterest: number; openInterestValue: number };
+
+export type FuturesContext = {
+  fundingRates: Array<number | null>; // taxa vigente em cada barra (última liquidação)
+  fundingTimes: Array<number | null>; // fundingTime da liquidação vigente (1 por liquidação)
+  openInterest: Array<number | null>; // contratos em aberto na barra
+  premium: Array<number | null>; // close do premium index (base p/ o próximo funding)
+};
+
+// Períodos aceitos por /futures/data/openInterestHist
+const OI_PERIODS = ["5m", "15m", "30m", "1h", "2h", "4h", "6h", "12h", "1d"];
+const OI_PAGE = 500;
+const OI_RETENTION_MS = 30 * 24 * 60 * 60_000;
+const FUNDING_PAGE = 1000;
+const INDEX_KLINES_PAGE = 1500;
+
+const http = binanceHttp.futures;
+
+export async function getFundingRateHistory(
+  inputSymbol: string,
+  {
+    startTime,
+    endTime,
+    limit = 1000,
+  }: { startTime?: number; endTime?: number; limit?: number } = {},
+): Promise<FundingRatePoint[]> {
+  const symbol = await resolveSymbol(inputSymbol, { market: "futures" });
+  const params = qs.stringify({
+    symbol,
+    startTime,
+    endTime,
+    limit: Math.min(FUNDING_PAGE, limit),
+  });
+  const data = await http.get<any[]>(`${BINANCE_FUT}/fapi/v1/fundingRate?${params}`);
+  return data.map((d) => ({
+    time: d.fundingTime,
+    fundingRate: parseFloat(d.fundingRate),
+    markPrice: d.markPrice ? parseFloat(d.markPrice) : undefined,
+  }));
+}
+
+// Pagina para frente de startTime até endTime: cada página vem do mais antigo
+// para o mais novo, então uma só chamada perderia as taxas mais recentes
+async function getFundingRateRange(
+  inputSymbol: string,
+  startTime: number,
+  endTime: number,
+): Promise<FundingRatePoint[]> {
+  const rows: FundingRatePoint[] = [];
+  let cursor = startTime;
+  while (cursor <= endTime) {
+    const page = await getFundingRateHistory(inputSymbol, {
+      startTime: cursor,
+      endTime,
+      limit: FUNDING_PAGE,
+    });
+    rows.push(...page);
+    if (page.length < FUNDING_PAGE) break;
+    cursor = page[page.length - 1].time + 1;
+  }
+  return rows;
+}
+
+// A Binance só guarda ~30 dias de histórico de open interest
+export async function getOpenInterestHistory(
+  inputSymbol: string,
+  period: string,
+  {
+    startTime,
+    endTime,
+    limit = 500,
+  }: { startTime?: number; endTime?: number; limit?: number } = {},
+): Promise<OpenInterestPoint[]> {
+  if (!OI_PERIODS.includes(period)) {
+    throw new Error(`Período de open interest não suportado: ${period}`);
+  }
+  const symbol = await resolveSymbol(inputSymbol, { market: "futures" });
+  const params = qs.stringify({
+    symbol,
+    period,
+    startTime,
+    endTime,
+    limit: Math.min(OI_PAGE, limit),
+  });
+  const data = await http.get<any[]>(`${BINANCE_FUT}/futures/data/openInterestHist?${params}`);
+  return data.map((d) => ({
+    time: d.timestamp,
+    openInterest: parseFloat(d.sumOpenInterest),
+    openInterestValue: parseFloat(d.sumOpenInterestValue),
+  }));
+}
+
+// Maior período de OI que cabe no intervalo dos candles (1d para 1d e acima; 5m abaixo de 5m)
+function oiPeriodFor(interval: string): string {
+  let ms: number;
+  try {
+    ms = intervalToMs(interval);
+  } catch {
+    return "5m";
+  }
+  const fits = OI_PERIODS.filter((p) => intervalToMs(p) <= ms);
+  return fits.length ? fits[fits.length - 1] : "5m";
+}
+
+// Pagina para frente de startTime até endTime (500 pontos por chamada)
+async function getOpenInterestRange(
+  inputSymbol: string,
+  period: string,
+  startTime: number,
+  endTime: number,
+): Promise<OpenInterestPoint[]> {
+  const rows: OpenInterestPoint[] = [];
+  let cursor = startTime;
+  while (cursor <= endTime) {
+    const page = await getOpenInterestHistory(inputSymbol, period, {
+      startTime: cursor,
+      endTime,
+      limit: OI_PAGE,
+    });
+    rows.push(...page);
+    if (page.length < OI_PAGE) break;
+    cursor = page[page.length - 1].time + 1;
+  }
+  return rows;
+}
+
+async function getIndexKlines(
+  path: "markPriceKlines" | "premiumIndexKlines",
+  inputSymbol: string,
+  interval: string,
+  limit: number,
+  { startTime, endTime }: { startTime?: number; endTime?: number } = {},
+): Promise<Kline[]> {
+  const symbol = await resolveSymbol(inputSymbol, { market: "futures" });
+  const fetchPage = async (size: number, t: { startTime?: number; endTime?: number }) => {
+    const params = qs.stringify({ symbol, interval, limit: size, ...t });
+    const data = await http.get<any[]>(`${BINANCE_FUT}/fapi/v1/${path}?${params}`, {
+      weight: klinesWeight("futures", size),
+    });
+    return data.map(parseKline);
+  };
+  if (startTime != null || limit <= INDEX_KLINES_PAGE) {
+    return fetchPage(Math.min(INDEX_KLINES_PAGE, limit), { startTime, endTime });
+  }
+
+  // acima de uma página: anda para trás a partir de endTime (como getKlines)
+  const rows: Kline[] = [];
+  let cursor = endTime;
+  while (rows.length < limit) {
+    const want = Math.min(INDEX_KLINES_PAGE, limit - rows.length);
+    const page = await fetchPage(want, { endTime: cursor });
+    if (!page.length) break;
+    rows.unshift(...page);
+    if (page.length < want) break;
+    cursor = page[0].openTime - 1;
+  }
+  return dedupeKlines(rows).slice(-limit);
+}
+
+export function getMarkPriceKlines(
+  inputSymbol: string,
+  interval: string,
+  limit = 500,
+  t: { startTime?: number; endTime?: number } = {},
+) {
+  return getIndexKlines("markPriceKlines", inputSymbol, interval, limit, t);
+}
+
+export function getPremiumIndexKlines(
+  inputSymbol: string,
+  interval: string,
+  limit = 500,
+  t: { startTime?: number; endTime?: number } = {},
+) {
+  return getIndexKlines("premiumIndexKlines", inputSymbol, interval, limit, t);
+}
+
+/**
+ * Alinha uma série esparsa à linha do tempo dos candles: cada barra recebe o último
+ * valor conhecido até o seu closeTime (sem look-ahead). Antes do 1º ponto: null.
+ */
+export function alignToTimeline(
+  times: number[],
+  points: Array<{ time: number; value: number }>,
+): Array<number | null> {
+  const sorted = points.slice().sort((a, b) => a.time - b.time);
+  const out: Array<number | null> = [];
+  let j = 0;
+  let current: number | null = null;
+  for (const t of times) {
+    while (j < sorted.length && sorted[j].time <= t) current = sorted[j++].value;
+    out.push(current);
+  }
+  return out;
+}
+
+/**
+ * Busca funding, open interest e premium index cobrindo os candles
+ * (times = closeTime) e devolve tudo alinhado barra a barra.
+ */
+export async function getFuturesContext(
+  inputSymbol: string,
+  interval: string,
+  times: number[],
+): Promise<FuturesContext> {
+  if (!times.length) return { fundingRates: [], fundingTimes: [], openInterest: [], premium: [] };
+  const startTime = times[0];
+  const endTime = times[times.length - 1];
+  const limit = times.length;
+  const oiPeriod = oiPeriodFor(interval);
+  // a Binance só guarda ~30 dias de OI: antes disso a série fica null
+  const oiStart = Math.max(startTime - intervalToMs(oiPeriod), Date.now() - OI_RETENTION_MS);
+
+  const [funding, oi, premium] = await Promise.all([
+    // funding liquida a cada 8h: volta uma janela p/ já ter a taxa vigente na 1ª barra
+    getFundingRateRange(inputSymbol, startTime - 8 * 60 * 60_000, endTime),
+    oiStart <= endTime
+      ? getOpenInterestRange(inputSymbol, oiPeriod, oiStart, endTime).catch(
+          () => [] as OpenInterestPoint[],
+        )
+      : ([] as OpenInterestPoint[]),
+    getPremiumIndexKlines(inputSymbol, interval, limit, { endTime }),
+  ]);
+
+  return {
+    fundingRates: alignToTimeline(
+      times,
+      funding.map((f) => ({ time: f.time, value: f.fundingRate })),
+    ),
+    fundingTimes: alignToTimeline(
+      times,
+      funding.map((f) => ({ time: f.time, value: f.time })),
+    ),
+    openInterest: alignToTimeline(
+      times,
+      oi.map((p) => ({ time: p.time, value: p.openInterest })),
+    ),
+    premium: alignToTimeline(
+      times,
+      premium.map((k) => ({ time: k.closeTime, value: k.close })),
+    ),
+  };
+}
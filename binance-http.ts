@@ -0,0 +1,176 @@
+import axios, { type AxiosRequestConfig, type AxiosResponseHeaders } from "axios";
+
+export class BinanceHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number, // HTTP status (undefined = erro de rede)
+    readonly code?: number, // código de erro da Binance ({ code, msg })
+    readonly url?: string,
+  ) {
+    super(message);
+    this.name = "BinanceHttpError";
+  }
+}
+
+// 429: limite de peso/ordens estourado
+export class BinanceRateLimitError extends BinanceHttpError {
+  constructor(
+    message: string,
+    readonly retryAfterMs: number | undefined,
+    code?: number,
+    url?: string,
+  ) {
+    super(message, 429, code, url);
+    this.name = "BinanceRateLimitError";
+  }
+}
+
+// 418: IP banido por insistir após 429s; não adianta tentar de novo
+export class BinanceBanError extends BinanceHttpError {
+  constructor(
+    message: string,
+    readonly retryAfterMs: number | undefined,
+    code?: number,
+    url?: string,
+  ) {
+    super(message, 418, code, url);
+    this.name = "BinanceBanError";
+  }
+}
+
+export type BinanceHttpOptions = {
+  weightLimit: number; // REQUEST_WEIGHT por minuto (spot 6000, futures 2400)
+  safetyRatio?: number; // fração do limite usada antes de esperar a virada do minuto (default 0.9)
+  maxRetries?: number; // default 4
+  baseDelayMs?: number; // default 500
+  maxDelayMs?: number; // default 30s
+};
+
+const WINDOW_MS = 60_000;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, Math.max(0, ms)));
+
+function headerNumber(headers: unknown, name: string): number | undefined {
+  const h = headers as AxiosResponseHeaders | undefined;
+  const raw = h?.[name] ?? h?.[name.toLowerCase()];
+  const n = Number(raw);
+  return raw != null && Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Cliente GET compartilhado para a Binance:
+ * - acompanha o peso usado (X-MBX-USED-WEIGHT-1M) e segura novas chamadas perto do limite
+ * - repete erros transitórios (rede, 5xx, 429) com backoff exponencial + jitter
+ * - respeita Retry-After e devolve erros tipados
+ */
+export class BinanceHttpClient {
+  private usedWeight = 0;
+  private windowStart = 0;
+  private blockedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private options: BinanceHttpOptions) {}
+
+  getUsedWeight() {
+    this.rollWindow();
+    return this.usedWeight;
+  }
+
+  async get<T>(
+    url: string,
+    { weight = 1, ...config }: AxiosRequestConfig & { weight?: number } = {},
+  ): Promise<T> {
+    const { maxRetries = 4 } = this.options;
+    for (let attempt = 0; ; attempt++) {
+      await this.reserve(weight);
+      try {
+        const res = await axios.get<T>(url, config);
+        this.syncWeight(res.headers);
+        return res.data;
+      } catch (err) {
+        const error = this.toError(err, url);
+        if (error instanceof BinanceRateLimitError || error instanceof BinanceBanError) {
+          this.blockedUntil = Math.max(
+            this.blockedUntil,
+            Date.now() + (error.retryAfterMs ?? WINDOW_MS),
+          );
+        }
+        if (!this.isRetryable(error) || attempt >= maxRetries) throw error;
+        await sleep(this.backoff(error, attempt));
+      }
+    }
+  }
+
+  private rollWindow() {
+    const start = Math.floor(Date.now() / WINDOW_MS) * WINDOW_MS;
+    if (start !== this.windowStart) {
+      this.windowStart = start;
+      this.usedWeight = 0;
+    }
+  }
+
+  // Reserva o peso da chamada; serializado para que chamadas paralelas não furem o limite
+  private reserve(weight: number): Promise<void> {
+    const { weightLimit, safetyRatio = 0.9 } = this.options;
+    const next = this.queue.then(async () => {
+      if (Date.now() < this.blockedUntil) await sleep(this.blockedUntil - Date.now());
+      this.rollWindow();
+      if (this.usedWeight + weight > weightLimit * safetyRatio) {
+        await sleep(this.windowStart + WINDOW_MS - Date.now() + 50);
+        this.rollWindow();
+      }
+      this.usedWeight += weight;
+    });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private syncWeight(headers: unknown) {
+    const used =
+      headerNumber(headers, "x-mbx-used-weight-1m") ?? headerNumber(headers, "x-mbx-used-weight");
+    if (used == null) return;
+    this.rollWindow();
+    // o servidor é a fonte de verdade, mas chamadas já reservadas ainda não aparecem nele
+    this.usedWeight = Math.max(this.usedWeight, used);
+  }
+
+  private toError(err: unknown, url: string): BinanceHttpError {
+    if (!axios.isAxiosError(err)) {
+      return new BinanceHttpError(
+        (err as Error)?.message ?? String(err),
+        undefined,
+        undefined,
+        url,
+      );
+    }
+    const res = err.response;
+    if (!res) return new BinanceHttpError(err.message, undefined, undefined, url);
+
+    this.syncWeight(res.headers);
+    const body = res.data as { code?: number; msg?: string } | undefined;
+    const message = `Binance ${res.status}: ${body?.msg ?? err.message}`;
+    const retryAfter = headerNumber(res.headers, "retry-after");
+    const retryAfterMs = retryAfter != null ? retryAfter * 1000 : undefined;
+    if (res.status === 429)
+      return new BinanceRateLimitError(message, retryAfterMs, body?.code, url);
+    if (res.status === 418) return new BinanceBanError(message, retryAfterMs, body?.code, url);
+    return new BinanceHttpError(message, res.status, body?.code, url);
+  }
+
+  private isRetryable(error: BinanceHttpError) {
+    if (error instanceof BinanceBanError) return false;
+    if (error instanceof BinanceRateLimitError) {
+      return (error.retryAfterMs ?? 0) <= (this.options.maxDelayMs ?? 30_000);
+    }
+    return error.status == null || error.status >= 500;
+  }
+
+  private backoff(error: BinanceHttpError, attempt: number) {
+    const { baseDelayMs = 500, maxDelayMs = 30_000 } = this.options;
+    if (error instanceof BinanceRateLimitError && error.retryAfterMs != null) {
+      return error.retryAfterMs;
+    }
+    const exp = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return exp / 2 + Math.random() * (exp / 2); // jitter: 50%..100% do exponencial
+  }
+}
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
+import { afterEach, mock, test } from "node:test";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { Kline } from "./binance.js";
+import { BinanceKlineStream } from "./binance-stream";
+
+const MIN = 60_000;
+const T0 = Date.UTC(2025, 0, 1);
+
+const bar = (i: number, close: number): Kline => ({
+  openTime: T0 + i * MIN,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1,
+  closeTime: T0 + (i + 1) * MIN - 1,
+});
+
+// mensagem no formato gravado do stream combinado da Binance
+const message = (b: Kline, closed: boolean) =>
+  JSON.stringify({
+    stream: "btcusdt@kline_1m",
+    data: {
+      e: "kline",
+      s: "BTCUSDT",
+      k: {
+        t: b.openTime,
+        T: b.closeTime,
+        s: "BTCUSDT",
+        i: "1m",
+        o: String(b.open),
+        h: String(b.high),
+        l: String(b.low),
+        c: String(b.close),
+        v: String(b.volume),
+        x: closed,
+      },
+    },
+  });
+
+let cleanup: Array<() => void> = [];
+afterEach(() => {
+  cleanup.forEach((fn) => fn());
+  cleanup = [];
+});
+
+// servidor local que faz o papel do endpoint da Binance (via baseUrl)
+async function replayServer() {
+  const wss = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+  await once(wss, "listening");
+  cleanup.push(() => {
+    wss.clients.forEach((c) => c.terminate());
+    wss.close();
+  });
+  const nextConnection = async () => (await once(wss, "connection"))[0] as WebSocket;
+  return { url: `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`, nextConnection };
+}
+
+function startStream(url: string, fetchKlines: () => Promise<Kline[]>) {
+  const stream = new BinanceKlineStream({
+    symbol: "BTCUSDT",
+    intervals: ["1m"],
+    resolve: false,
+    baseUrl: url,
+    reconnectDelayMs: 10,
+    fetchKlines,
+  });
+  cleanup.push(() => stream.stop());
+  return stream;
+}
+
+test("reproduz mensagens gravadas e repõe pelo REST as barras perdidas ao reconectar", async () => {
+  const server = await replayServer();
+  let history = [bar(0, 10), bar(1, 11)];
+  let fetches = 0;
+  const stream = startStream(server.url, async () => {
+    fetches++;
+    return history.slice();
+  });
+
+  const first = server.nextConnection();
+  await stream.start();
+  const ws1 = await first;
+
+  const closed = once(stream, "close");
+  ws1.send(message(bar(2, 12), true));
+  const [interval, candles] = await closed;
+  assert.equal(interval, "1m");
+  assert.deepEqual(candles.closes, [10, 11, 12]);
+
+  // barras 3 e 4 fecharam enquanto a conexão estava caída
+  history = [0, 1, 2, 3, 4].map((i) => bar(i, 10 + i));
+  const second = server.nextConnection();
+  ws1.terminate();
+  const ws2 = await second;
+  assert.equal(fetches, 2);
+  assert.deepEqual(stream.getCandles("1m").closes, [10, 11, 12, 13, 14]);
+
+  const updated = once(stream, "update");
+  ws2.send(message(bar(5, 15), false));
+  await updated;
+  assert.deepEqual(stream.getCandles("1m").closes, [10, 11, 12, 13, 14, 15]);
+});
+
+test("falha no backfill sem listener de erro vira aviso, não rejeição, e ainda reconecta", async () => {
+  const server = await replayServer();
+  const rejections: unknown[] = [];
+  const onRejection = (err: unknown) => rejections.push(err);
+  process.on("unhandledRejection", onRejection);
+  cleanup.push(() => process.off("unhandledRejection", onRejection));
+  const warn = mock.method(console, "warn", () => {});
+  cleanup.push(() => warn.mock.restore());
+
+  let fetches = 0;
+  const stream = startStream(server.url, async () => {
+    if (++fetches > 1) throw new Error("REST indisponível");
+    return [bar(0, 10)];
+  });
+
+  const first = server.nextConnection();
+  await stream.start();
+  const ws1 = await first;
+
+  const second = server.nextConnection();
+  ws1.terminate();
+  await second;
+  await new Promise((r) => setTimeout(r, 20));
+
+  assert.equal(fetches, 2);
+  assert.deepEqual(rejections, []);
+  assert.equal(warn.mock.callCount(), 1);
+  assert.match(String(warn.mock.calls[0].arguments[0]), /REST indisponível/);
+  assert.deepEqual(stream.getCandles("1m").closes, [10]); // mantém a janela anterior
+});
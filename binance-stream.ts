@@ -0,0 +1,143 @@
+import { EventEmitter } from "node:events";
+import WebSocket from "ws";
+import { getKlines, resolveSymbol, type Kline, type Market } from "./binance.js";
+import { toCandlesOut, type CandlesOut } from "./get-candles";
+
+const STREAM_SPOT = "wss://stream.binance.com:9443";
+const STREAM_FUT = "wss://fstream.binance.com";
+
+export type KlineStreamOptions = {
+  symbol: string;
+  intervals: string[]; // ex.: ["1m", "5m", "15m"]
+  market?: Market; // default "spot"
+  limit?: number; // barras mantidas em memória por TF (default 500)
+  seed?: boolean; // pré-carrega o histórico via REST (default true)
+  resolve?: boolean; // resolve o símbolo via exchangeInfo (default true)
+  baseUrl?: string; // override do endpoint (ex.: servidor local que reproduz mensagens gravadas)
+  reconnectDelayMs?: number; // default 3000
+  fetchKlines?: typeof getKlines; // fonte do histórico (seed/backfill); default REST da Binance
+};
+
+/**
+ * Stream de klines da Binance para vários intervalos em uma única conexão.
+ * Mantém uma janela `CandlesOut` por timeframe e emite:
+ * - "update" (interval, candles): a cada mensagem (barra em formação incluída)
+ * - "close" (interval, candles, kline): quando a barra fecha (`k.x`)
+ * - "open" / "disconnect" / "error" (só emitido se houver listener; sem ele o erro é ignorado)
+ */
+export class BinanceKlineStream extends EventEmitter {
+  private rows = new Map<string, Kline[]>();
+  private ws?: WebSocket;
+  private stopped = true;
+  private symbol?: string;
+
+  constructor(private options: KlineStreamOptions) {
+    super();
+  }
+
+  async start() {
+    const { symbol, market = "spot", resolve = true } = this.options;
+    this.stopped = false;
+    this.symbol = resolve ? await resolveSymbol(symbol, { market }) : symbol.toUpperCase();
+    await this.seed();
+    this.connect();
+  }
+
+  stop() {
+    this.stopped = true;
+    this.ws?.close();
+  }
+
+  getCandles(interval: string): CandlesOut {
+    return toCandlesOut(this.rows.get(interval) ?? []);
+  }
+
+  private async seed() {
+    const {
+      intervals,
+      market = "spot",
+      limit = 500,
+      seed = true,
+      fetchKlines = getKlines,
+    } = this.options;
+    if (!seed) return;
+    await Promise.all(
+      intervals.map(async (interval) => {
+        const rows = await fetchKlines(this.symbol!, interval, limit, { market });
+        this.rows.set(interval, rows);
+      }),
+    );
+  }
+
+  private connect() {
+    const { intervals, market = "spot", baseUrl, reconnectDelayMs = 3000 } = this.options;
+    const base = baseUrl ?? (market === "spot" ? STREAM_SPOT : STREAM_FUT);
+    const streams = intervals.map((i) => `${this.symbol!.toLowerCase()}@kline_${i}`).join("/");
+
+    const ws = new WebSocket(`${base}/stream?streams=${streams}`);
+    this.ws = ws;
+    ws.on("open", () => this.emit("open"));
+    ws.on("message", (raw) => this.handleMessage(raw.toString()));
+    ws.on("error", (err) => this.emitError(err));
+    ws.on("close", () => {
+      this.emit("disconnect");
+      if (this.stopped) return;
+      // reconecta e repõe pelo REST as barras perdidas enquanto esteve fora
+      setTimeout(() => {
+        if (this.stopped) return;
+        this.seed()
+          .catch((err) => this.emitError(err))
+          .finally(() => {
+            if (!this.stopped) this.connect();
+          });
+      }, reconnectDelayMs);
+    });
+  }
+
+  // "error" sem listener lança no EventEmitter (e viraria rejeição não tratada no backfill):
+  // nesse caso só avisa no console e segue reconectando
+  private emitError(err: unknown) {
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", err);
+      return;
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn(`Erro no stream de klines de ${this.symbol ?? this.options.symbol}: ${message}`);
+  }
+
+  private handleMessage(raw: string) {
+    let msg: any;
+    try {
+      msg = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    // stream combinado: { stream, data: { e: "kline", k: {...} } }
+    const k = (msg?.data ?? msg)?.k;
+    if (!k || !this.options.intervals.includes(k.i)) return;
+
+    const row: Kline = {
+      openTime: k.t,
+      open: parseFloat(k.o),
+      high: parseFloat(k.h),
+      low: parseFloat(k.l),
+      close: parseFloat(k.c),
+      volume: parseFloat(k.v),
+      closeTime: k.T,
+    };
+
+    const rows = this.rows.get(k.i) ?? [];
+    const lastRow = rows[rows.length - 1];
+    if (lastRow && lastRow.openTime === row.openTime) rows[rows.length - 1] = row;
+    else if (!lastRow || row.openTime > lastRow.openTime) rows.push(row);
+    else return; // mensagem atrasada de barra já substituída
+
+    const limit = this.options.limit ?? 500;
+    if (rows.length > limit) rows.splice(0, rows.length - limit);
+    this.rows.set(k.i, rows);
+
+    const candles = this.getCandles(k.i);
+    this.emit("update", k.i, candles);
+    if (k.x) this.emit("close", k.i, candles, row);
+  }
+}
@@ -1,42 +1,83 @@
-import axios from "axios";
 import qs from "qs";
+import { BinanceHttpClient } from "./binance-http";
+import { MetadataCache } from "./metadata-cache";
 const BINANCE_SPOT = "https://api.binance.com";
-const BINANCE_FUT = "https://fapi.binance.com";
+export const BINANCE_FUT = "https://fapi.binance.com";
 
-type Market = "spot" | "futures";
+export type Market = "spot" | "futures";
 
-type ExchangeInfo = {
+export type SymbolFilter = {
+  filterType: string; // PRICE_FILTER, LOT_SIZE, MIN_NOTIONAL, NOTIONAL...
+  [key: string]: string | number | boolean | undefined;
+};
+
+export type ExchangeInfo = {
   symbols: Array<{
     symbol: string;
     status: string;
     baseAsset: string;
     quoteAsset: string;
+    filters?: SymbolFilter[];
+    pricePrecision?: number; // só futures
+    quantityPrecision?: number; // só futures
+    baseAssetPrecision?: number; // só spot
+    quotePrecision?: number;
   }>;
 };
 
-let _exchangeInfoCache: { spot: ExchangeInfo | null; futures: ExchangeInfo | null; ts: number } = {
-  spot: null,
-  futures: null,
-  ts: 0,
-};
 const CACHE_TTL_MS = 5 * 60 * 1000;
 
-async function getExchangeInfo(market: Market = "spot"): Promise<ExchangeInfo> {
-  const now = Date.now();
-  const cached = market === "spot" ? _exchangeInfoCache.spot : _exchangeInfoCache.futures;
-  if (cached && now - _exchangeInfoCache.ts < CACHE_TTL_MS) return cached;
+// exchangeInfo por mercado, cada um com seu TTL, com snapshot em disco p/ uso offline
+const exchangeInfoCache = new MetadataCache<ExchangeInfo>("binance", { ttlMs: CACHE_TTL_MS });
+
+// Um cliente por mercado: os limites de peso são contados separadamente
+export const binanceHttp: Record<Market, BinanceHttpClient> = {
+  spot: new BinanceHttpClient({ weightLimit: 6000 }),
+  futures: new BinanceHttpClient({ weightLimit: 2400 }),
+};
+
+// Peso de /klines conforme a documentação (futures varia com o limit)
+export function klinesWeight(market: Market, limit: number) {
+  if (market === "spot") return 2;
+  if (limit < 100) return 1;
+  if (limit < 500) return 2;
+  if (limit <= 1000) return 5;
+  return 10;
+}
 
+async function fetchExchangeInfo(market: Market): Promise<ExchangeInfo> {
   const baseUrl = market === "spot" ? BINANCE_SPOT : BINANCE_FUT;
   const path = market === "spot" ? "/api/v3/exchangeInfo" : "/fapi/v1/exchangeInfo";
-  const { data } = await axios.get<ExchangeInfo>(baseUrl + path);
+  const data = await binanceHttp[market].get<ExchangeInfo>(baseUrl + path, {
+    weight: market === "spot" ? 20 : 1,
+  });
 
-  if (market === "spot") _exchangeInfoCache.spot = data;
-  else _exchangeInfoCache.futures = data;
-  _exchangeInfoCache.ts = now;
-  return data;
+  // guarda só o que usamos (a resposta completa do spot tem vários MB)
+  return {
+    symbols: (data.symbols || []).map((s) => ({
+      symbol: s.symbol,
+      status: s.status,
+      baseAsset: s.baseAsset,
+      quoteAsset: s.quoteAsset,
+      filters: s.filters,
+      pricePrecision: s.pricePrecision,
+      quantityPrecision: s.quantityPrecision,
+      baseAssetPrecision: s.baseAssetPrecision,
+      quotePrecision: s.quotePrecision,
+    })),
+  };
 }
 
-async function resolveSymbol(
+export async function getExchangeInfo(market: Market = "spot"): Promise<ExchangeInfo> {
+  return exchangeInfoCache.get(market, () => fetchExchangeInfo(market));
+}
+
+// Ignora o TTL e baixa de novo (atualiza também o snapshot em disco)
+export async function refreshExchangeInfo(market: Market = "spot"): Promise<ExchangeInfo> {
+  return exchangeInfoCache.refresh(market, () => fetchExchangeInfo(market));
+}
+
+export async function resolveSymbol(
   input: string,
   options: { market?: Market; quotePriority?: string[] } = {},
 ): Promise<string> {
@@ -68,34 +109,21 @@ async function resolveSymbol(
   throw new Error(`Não encontrei símbolo para "${input}" em ${market}.`);
 }
 
-export async function getKlines(
-  inputSymbol: string,
-  interval: string,
-  limit = 500,
-  { market = "spot" }: { market?: Market } = {},
-  { startTime, endTime }: { startTime?: number; endTime?: number } = {},
-) {
-  const symbol = await resolveSymbol(inputSymbol, { market });
+export type Kline = {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  closeTime: number;
+};
 
-  const params = { symbol, interval, limit, startTime, endTime };
-  const stringParams = qs.stringify(params);
-  if (market === "spot") {
-    const url = `${BINANCE_SPOT}/api/v3/klines?${stringParams}`;
-    const { data } = await axios.get<any[]>(url);
-    return data.map((k) => ({
-      openTime: k[0],
-      open: parseFloat(k[1]),
-      high: parseFloat(k[2]),
-      low: parseFloat(k[3]),
-      close: parseFloat(k[4]),
-      volume: parseFloat(k[5]),
-      closeTime: k[6],
-    }));
-  }
+// Máximo de barras por requisição aceito pela Binance
+const MAX_LIMIT: Record<Market, number> = { spot: 1000, futures: 1500 };
 
-  const url = `${BINANCE_FUT}/fapi/v1/klines?${stringParams}`;
-  const { data } = await axios.get<any[]>(url);
-  return data.map((k) => ({
+export function parseKline(k: any[]): Kline {
+  return {
     openTime: k[0],
     open: parseFloat(k[1]),
     high: parseFloat(k[2]),
@@ -103,5 +131,102 @@ export async function getKlines(
     close: parseFloat(k[4]),
     volume: parseFloat(k[5]),
     closeTime: k[6],
-  }));
+  };
+}
+
+async function fetchKlinesPage(
+  symbol: string,
+  interval: string,
+  limit: number,
+  market: Market,
+  { startTime, endTime }: { startTime?: number; endTime?: number } = {},
+): Promise<Kline[]> {
+  const params = { symbol, interval, limit, startTime, endTime };
+  const stringParams = qs.stringify(params);
+  const url =
+    market === "spot"
+      ? `${BINANCE_SPOT}/api/v3/klines?${stringParams}`
+      : `${BINANCE_FUT}/fapi/v1/klines?${stringParams}`;
+  const data = await binanceHttp[market].get<any[]>(url, { weight: klinesWeight(market, limit) });
+  return data.map(parseKline);
+}
+
+// Remove barras repetidas (mesmo openTime) e ordena de forma crescente
+export function dedupeKlines(rows: Kline[]): Kline[] {
+  const byOpen = new Map<number, Kline>();
+  for (const r of rows) byOpen.set(r.openTime, r);
+  return [...byOpen.values()].sort((a, b) => a.openTime - b.openTime);
+}
+
+/**
+ * Busca paginada: caminha de startTime até endTime (ou até juntar `limit` barras,
+ * quando endTime não é informado), página a página, e devolve uma série contínua.
+ */
+export async function getKlinesRange(
+  inputSymbol: string,
+  interval: string,
+  { market = "spot" }: { market?: Market } = {},
+  { startTime, endTime, limit }: { startTime: number; endTime?: number; limit?: number },
+): Promise<Kline[]> {
+  const symbol = await resolveSymbol(inputSymbol, { market });
+  const pageSize = MAX_LIMIT[market];
+  const total = endTime == null ? (limit ?? pageSize) : Infinity;
+
+  const rows: Kline[] = [];
+  let cursor = startTime;
+  while (rows.length < total) {
+    const want = Math.min(pageSize, total - rows.length);
+    const page = await fetchKlinesPage(symbol, interval, want, market, {
+      startTime: cursor,
+      endTime,
+    });
+    if (!page.length) break;
+    rows.push(...page);
+    if (page.length < want) break; // chegou ao fim do intervalo disponível
+    cursor = page[page.length - 1].openTime + 1;
+    if (endTime != null && cursor > endTime) break;
+  }
+
+  const out = dedupeKlines(rows);
+  return Number.isFinite(total) ? out.slice(0, total) : out;
+}
+
+// Sem startTime: anda para trás a partir de endTime (ou agora) até juntar `limit` barras
+async function getKlinesBackward(
+  symbol: string,
+  interval: string,
+  limit: number,
+  market: Market,
+  endTime?: number,
+): Promise<Kline[]> {
+  const pageSize = MAX_LIMIT[market];
+  const rows: Kline[] = [];
+  let cursor = endTime;
+  while (rows.length < limit) {
+    const want = Math.min(pageSize, limit - rows.length);
+    const page = await fetchKlinesPage(symbol, interval, want, market, { endTime: cursor });
+    if (!page.length) break;
+    rows.unshift(...page);
+    if (page.length < want) break;
+    cursor = page[0].openTime - 1;
+  }
+  return dedupeKlines(rows).slice(-limit);
+}
+
+export async function getKlines(
+  inputSymbol: string,
+  interval: string,
+  limit = 500,
+  { market = "spot" }: { market?: Market } = {},
+  { startTime, endTime }: { startTime?: number; endTime?: number } = {},
+): Promise<Kline[]> {
+  if (startTime != null) {
+    return getKlinesRange(inputSymbol, interval, { market }, { startTime, endTime, limit });
+  }
+
+  const symbol = await resolveSymbol(inputSymbol, { market });
+  if (limit > MAX_LIMIT[market]) {
+    return getKlinesBackward(symbol, interval, limit, market, endTime);
+  }
+  return fetchKlinesPage(symbol, interval, limit, market, { endTime });
 }
@@ -1,6 +1,8 @@
 import { getEnv } from "./env";
 import { getCandles } from "./get-candles";
 import { EnsembleAdaptive } from "./utils/ensemble-multi-tf";
+import { intervalToMs } from "./utils/interval";
+import { resampleCandles } from "./utils/resample";
 const getTimeFrame = async (interval: string) => {
   const envs = getEnv();
   return await getCandles(
@@ -11,16 +13,32 @@ const getTimeFrame = async (interval: string) => {
     envs.MARKET as any,
   );
 };
+// Com BASE_INTERVAL (ex.: 1m) faz uma única busca e agrega localmente os demais TFs
+const getTimeFrames = async (intervals: string[]) => {
+  const envs = getEnv();
+  const base = envs.BASE_INTERVAL;
+  if (!base) return Promise.all(intervals.map(getTimeFrame));
+
+  const factor = Math.max(...intervals.map((i) => intervalToMs(i) / intervalToMs(base)));
+  const baseCandles = await getCandles(
+    envs.SYMBOL,
+    base,
+    envs.LIMIT * factor,
+    envs.STRATEGY_KLINE as any,
+    envs.MARKET as any,
+  );
+  return intervals.map((i) => (i === base ? baseCandles : resampleCandles(baseCandles, base, i)));
+};
 (async () => {
   const [
     candles5m,
     candles15m,
     //, candles1h, candles1D
-  ] = await Promise.all([
-    getTimeFrame("5m"),
-    getTimeFrame("15m"),
-    // getTimeFrame("1h"),
-    // getTimeFrame("1D"),
+  ] = await getTimeFrames([
+    "5m",
+    "15m",
+    // "1h",
+    // "1d",
   ]);
   // 1) instancie uma vez (pode reaproveitar entre execuções)
   const ens = new EnsembleAdaptive();
@@ -37,6 +55,8 @@ const getTimeFrame = async (interval: string) => {
       // { label: "1D", candles: candles1D },
     ],
     confirmOnClose: true,
+    // B3 não é 24/7: gaps de noite/fim de semana não contam como barras faltando
+    validation: getEnv().STRATEGY_KLINE === "b3" ? { session: "b3" } : undefined,
     buyThreshold: +0.15,
     sellThreshold: -0.15,
     basePositionPct: 0.25,
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { test } from "node:test";
+import type { Kline } from "./binance.js";
+import { findMissingRanges, getKlinesCached, subtractRanges } from "./candle-cache";
+
+const row = (openTime: number, closeTime: number): Kline => ({
+  openTime,
+  open: 1,
+  high: 1,
+  low: 1,
+  close: 1,
+  volume: 1,
+  closeTime,
+});
+
+const DAY = 24 * 60 * 60_000;
+
+test("semanas abertas na segunda não geram gaps fantasmas", () => {
+  const monday = Date.UTC(2025, 0, 6);
+  const rows = [0, 1, 2, 3].map((k) => row(monday + k * 7 * DAY, monday + (k + 1) * 7 * DAY - 1));
+  const end = monday + 3 * 7 * DAY + 2 * DAY; // quarta da última semana
+  assert.deepEqual(findMissingRanges(rows, monday, end, "1w"), []);
+
+  const gaps = findMissingRanges([rows[0], rows[2], rows[3]], monday, end, "1w");
+  assert.deepEqual(gaps, [{ startTime: rows[1].openTime, endTime: rows[2].openTime - 1 }]);
+});
+
+test("meses de duração variável seguem as fronteiras do calendário", () => {
+  const opens = [0, 1, 2, 3].map((m) => Date.UTC(2025, m, 1)); // jan..abr (28, 30, 31 dias)
+  const rows = opens.map((o, k) => row(o, Date.UTC(2025, k + 1, 1) - 1));
+  const end = Date.UTC(2025, 3, 15);
+  assert.deepEqual(findMissingRanges(rows, opens[0], end, "1M"), []);
+  assert.deepEqual(findMissingRanges(rows.slice(0, 2), opens[0], end, "1M"), [
+    { startTime: opens[2], endTime: end },
+  ]);
+});
+
+test("trechos vazios conhecidos saem dos gaps", () => {
+  const gaps = [{ startTime: 0, endTime: 99 }];
+  assert.deepEqual(subtractRanges(gaps, [{ startTime: 0, endTime: 49 }]), [
+    { startTime: 50, endTime: 99 },
+  ]);
+  assert.deepEqual(subtractRanges(gaps, [{ startTime: 20, endTime: 29 }]), [
+    { startTime: 0, endTime: 19 },
+    { startTime: 30, endTime: 99 },
+  ]);
+  assert.deepEqual(subtractRanges(gaps, [{ startTime: 0, endTime: 120 }]), []);
+});
+
+test("período antes da listagem é buscado uma vez e depois vem do cache", async () => {
+  const key = { provider: "test", market: "spot", symbol: "NEWUSDT", interval: "1d" };
+  const dir = path.join(process.env.CANDLE_CACHE_DIR || ".cache/candles", key.provider);
+  await fs.rm(dir, { recursive: true, force: true });
+  try {
+    const today = Math.floor(Date.now() / DAY) * DAY;
+    // listado há 3 dias: a exchange não tem nada antes disso
+    const listed = [3, 2, 1, 0].map((k) => row(today - k * DAY, today - (k - 1) * DAY - 1));
+    const calls: Array<{ startTime?: number; endTime?: number }> = [];
+    const fetchKlines = async (t: { startTime?: number; endTime?: number }) => {
+      calls.push(t);
+      return listed.filter(
+        (r) =>
+          (t.startTime == null || r.openTime >= t.startTime) &&
+          (t.endTime == null || r.openTime <= t.endTime),
+      );
+    };
+
+    await getKlinesCached(key, { limit: 10 }, fetchKlines);
+    await getKlinesCached(key, { limit: 10 }, fetchKlines);
+    const before = calls.length;
+    const rows = await getKlinesCached(key, { limit: 10 }, fetchKlines);
+    assert.equal(rows.length, 4);
+    // só a barra de hoje (aberta) é rebuscada; os 6 dias antes da listagem não
+    assert.deepEqual(calls.slice(before), [{ startTime: today, endTime: calls[before].endTime }]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
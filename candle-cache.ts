@@ -0,0 +1,155 @@
+import fs from "fs/promises";
+import path from "path";
+import type { Kline } from "./binance.js";
+import { bucketStart, nextBucketStart } from "./utils/resample";
+
+export type CandleCacheKey = {
+  provider: string;
+  market: string;
+  symbol: string;
+  interval: string;
+};
+
+// `empty`: trechos já pedidos que a exchange devolveu vazios (pré-listagem, suspensão)
+type CacheFile = { updatedAt: number; rows: Kline[]; empty?: Range[] };
+
+type Range = { startTime: number; endTime: number };
+
+const CACHE_DIR = process.env.CANDLE_CACHE_DIR || ".cache/candles";
+
+function cachePath({ provider, market, symbol, interval }: CandleCacheKey) {
+  const sym = symbol.toUpperCase().replace(/\s+/g, "");
+  // "1M" (mês) e "1m" (minuto) colidiriam em sistemas de arquivos case-insensitive
+  const iv = interval.replace(/M$/, "mo");
+  return path.join(CACHE_DIR, provider, market, `${sym}_${iv}.json`);
+}
+
+async function readCache(key: CandleCacheKey): Promise<CacheFile | null> {
+  try {
+    const raw = await fs.readFile(cachePath(key), "utf8");
+    const parsed = JSON.parse(raw) as CacheFile;
+    return Array.isArray(parsed?.rows) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(
+  key: CandleCacheKey,
+  rows: Kline[],
+  updatedAt: number,
+  empty: Range[] = [],
+) {
+  const file = cachePath(key);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const data: CacheFile = { updatedAt, rows, ...(empty.length ? { empty } : {}) };
+  await fs.writeFile(file, JSON.stringify(data));
+}
+
+// Junta duas séries; em caso de mesmo openTime prevalece a mais nova (`next`)
+export function mergeKlines(prev: Kline[], next: Kline[]): Kline[] {
+  const byOpen = new Map<number, Kline>();
+  for (const r of prev) byOpen.set(r.openTime, r);
+  for (const r of next) byOpen.set(r.openTime, r);
+  return [...byOpen.values()].sort((a, b) => a.openTime - b.openTime);
+}
+
+// Intervalos de tempo (por openTime) sem barra no cache dentro de [start, end].
+// Aberturas seguem as fronteiras da exchange (semana na segunda, mês no dia 1).
+export function findMissingRanges(
+  rows: Kline[],
+  start: number,
+  end: number,
+  interval: string,
+): Range[] {
+  const gaps: Range[] = [];
+  const first = bucketStart(start, interval);
+  let cursor = first < start ? nextBucketStart(first, interval) : first;
+  const lastOpen = bucketStart(end, interval);
+  for (const r of rows) {
+    if (r.openTime < cursor) continue;
+    if (r.openTime > lastOpen) break;
+    if (r.openTime > cursor) gaps.push({ startTime: cursor, endTime: r.openTime - 1 });
+    cursor = nextBucketStart(r.openTime, interval);
+  }
+  if (cursor <= lastOpen) gaps.push({ startTime: cursor, endTime: end });
+  return gaps;
+}
+
+// Remove dos gaps os trechos já conhecidos como vazios
+export function subtractRanges(gaps: Range[], empty: Range[]): Range[] {
+  const sorted = empty.slice().sort((a, b) => a.startTime - b.startTime);
+  const out: Range[] = [];
+  for (const gap of gaps) {
+    let cursor = gap.startTime;
+    for (const e of sorted) {
+      if (e.endTime < cursor || e.startTime > gap.endTime) continue;
+      if (e.startTime > cursor) out.push({ startTime: cursor, endTime: e.startTime - 1 });
+      cursor = Math.max(cursor, e.endTime + 1);
+    }
+    if (cursor <= gap.endTime) out.push({ startTime: cursor, endTime: gap.endTime });
+  }
+  return out;
+}
+
+/**
+ * Lê a série do cache local e busca no provedor só o que falta (gaps e a cauda).
+ * Se o provedor não aceita startTime/endTime (`supportsRange: false`), rebusca a
+ * janela pedida e apenas mescla. Sem rede, devolve o que houver em cache.
+ * Trechos fechados que a exchange devolve vazios ficam registrados e não são rebuscados.
+ */
+export async function getKlinesCached(
+  key: CandleCacheKey,
+  { limit, startTime, endTime }: { limit: number; startTime?: number; endTime?: number },
+  fetchKlines: (t: { startTime?: number; endTime?: number }) => Promise<Kline[]>,
+  { supportsRange = true }: { supportsRange?: boolean } = {},
+): Promise<Kline[]> {
+  const now = Date.now();
+  const cached = await readCache(key);
+  // barras que ainda estavam abertas quando foram gravadas serão rebuscadas
+  let rows = cached ? cached.rows.filter((r) => r.closeTime < cached.updatedAt) : [];
+
+  const end = endTime ?? now;
+  let start = startTime ?? bucketStart(end, key.interval);
+  // sem startTime: volta `limit` − 1 barras a partir da barra de `end`
+  for (let k = 1; startTime == null && k < limit; k++) start = bucketStart(start - 1, key.interval);
+
+  const empty = cached?.empty ?? [];
+  const knownEmpty = empty.length;
+  // só barras já fechadas: a aberta ainda pode aparecer
+  const closedBefore = bucketStart(now, key.interval);
+  const fetched: Kline[] = [];
+  try {
+    if (!rows.length || !supportsRange) {
+      fetched.push(...(await fetchKlines({ startTime, endTime })));
+    } else {
+      const gaps = findMissingRanges(rows, start, end, key.interval);
+      for (const gap of subtractRanges(gaps, empty)) {
+        const page = await fetchKlines(gap);
+        fetched.push(...page);
+        // o que vem antes da 1ª barra devolvida não existe na exchange
+        const emptyEnd = Math.min(
+          page.length ? page[0].openTime - 1 : gap.endTime,
+          closedBefore - 1,
+        );
+        if (emptyEnd >= gap.startTime) empty.push({ startTime: gap.startTime, endTime: emptyEnd });
+      }
+    }
+  } catch (err: any) {
+    if (!rows.length) throw err;
+    console.warn(
+      `Falha ao atualizar cache de ${key.symbol} ${key.interval} (${err?.message}); usando dados locais.`,
+    );
+  }
+
+  if (fetched.length || empty.length > knownEmpty) {
+    rows = mergeKlines(rows, fetched);
+    await writeCache(key, rows, now, empty);
+  }
+
+  const inWindow = rows.filter(
+    (r) => (startTime == null || r.openTime >= startTime) && r.openTime <= end,
+  );
+  if (startTime == null) return inWindow.slice(-limit);
+  return endTime == null ? inWindow.slice(0, limit) : inWindow;
+}
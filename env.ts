@@ -4,6 +4,7 @@ export type Env = {
   INTERVAL: string;
   MARKET: string;
   LIMIT: number;
+  BASE_INTERVAL?: string; // se definido, TFs maiores são agregados a partir deste feed
 };
 
 export function getEnv(): Env {
@@ -12,5 +13,6 @@ export function getEnv(): Env {
   const INTERVAL = process.env.INTERVAL || process.argv[4];
   const MARKET = process.env.MARKET || process.argv[5];
   const LIMIT = Number(process.argv[6] || 1000);
-  return { STRATEGY_KLINE, SYMBOL, INTERVAL, MARKET, LIMIT };
+  const BASE_INTERVAL = process.env.BASE_INTERVAL || undefined;
+  return { STRATEGY_KLINE, SYMBOL, INTERVAL, MARKET, LIMIT, BASE_INTERVAL };
 }
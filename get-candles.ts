@@ -1,9 +1,11 @@
 import { getKlines as getKlinesB3 } from "./b3.js";
-import { getKlines as getKlinesBinance } from "./binance.js";
+import { getKlines as getKlinesBinance, type Kline } from "./binance.js";
+import { getKlinesCached } from "./candle-cache";
+import { getKlines as getKlinesCSV } from "./loadCandlesFromCSV";
 
 type Market = "spot" | "futures";
 
-type CandlesOut = {
+export type CandlesOut = {
   opens: number[];
   closes: number[];
   highs: number[];
@@ -16,6 +18,7 @@ type CandlesOut = {
 const strategiesKlines = {
   binance: getKlinesBinance,
   b3: getKlinesB3,
+  csv: getKlinesCSV,
 } as const;
 
 export async function getCandles(
@@ -25,22 +28,40 @@ export async function getCandles(
   klinesType: keyof typeof strategiesKlines = "binance",
   market: Market = "spot",
   t: { startTime?: number; endTime?: number } = {},
+  // cache em disco (default ligado; CANDLE_CACHE=off desliga)
+  { cache = process.env.CANDLE_CACHE !== "off" }: { cache?: boolean } = {},
 ): Promise<CandlesOut> {
-  const candles = await strategiesKlines[klinesType](
-    symbol,
-    interval,
-    limit,
-    {
-      market,
-    } as any,
-    t,
-  );
-  const opens = candles.map((c: any) => c.open);
-  const closes = candles.map((c: any) => c.close);
-  const highs = candles.map((c: any) => c.high);
-  const lows = candles.map((c: any) => c.low);
-  const volumes = candles.map((c: any) => c.volume);
-  const times = candles.map((c: any) => c.closeTime);
+  const fetchKlines = (range: { startTime?: number; endTime?: number }) =>
+    strategiesKlines[klinesType](
+      symbol,
+      interval,
+      limit,
+      {
+        market,
+      } as any,
+      range,
+    );
+  // csv já é local: não passa pelo cache
+  const candles =
+    cache && klinesType !== "csv"
+      ? await getKlinesCached(
+          { provider: klinesType, market, symbol, interval },
+          { limit, ...t },
+          fetchKlines,
+          // brapi só trabalha com "range"; não dá para pedir só o trecho faltante
+          { supportsRange: klinesType === "binance" },
+        )
+      : await fetchKlines(t);
+  return toCandlesOut(candles);
+}
+
+export function toCandlesOut(candles: Kline[]): CandlesOut {
+  const opens = candles.map((c) => c.open);
+  const closes = candles.map((c) => c.close);
+  const highs = candles.map((c) => c.high);
+  const lows = candles.map((c) => c.low);
+  const volumes = candles.map((c) => c.volume);
+  const times = candles.map((c) => c.closeTime);
 
   return {
     opens,
@@ -2,10 +2,12 @@ import { writeFileSync } from "node:fs";
 import * as TI from "technicalindicators";
 import { getKlines as getKlinesB3 } from "./b3.js";
 import { getKlines as getKlinesBinance } from "./binance.js";
+import { getKlines as getKlinesCSV } from "./loadCandlesFromCSV";
 
 const getKlines = {
   binance: getKlinesBinance,
   b3: getKlinesB3,
+  csv: getKlinesCSV,
 } as const;
 const { EMA, RSI, MACD, BollingerBands, ADX, ATR } = TI;
 
@@ -1,7 +1,6 @@
 import { padLeft } from "../utils/pad-left.js";
 import { IIndicatorDecisionMin } from "./types.js";
 
-
 export type Candles = {
   highs: number[];
   lows: number[];
@@ -15,6 +14,18 @@ export type IchimokuParams = {
   basePeriod?: number; // Kijun (default 26)
   spanBPeriod?: number; // Senkou Span B (default 52)
   displacement?: number; // deslocamento para frente do cloud (default 26)
+  kijunFlatBars?: number; // barras com Kijun inalterada para considerar "flat" (default 5)
+};
+
+export type FutureCloudPoint = {
+  barsAhead: number; // 1..displacement à frente de lastIndex
+  spanA: number;
+  spanB: number;
+};
+
+export type KumoTwist = {
+  direction: "bull" | "bear"; // bull: Span A passa a ficar acima da Span B
+  barsAhead: number;
 };
 
 function highest(values: number[], start: number, len: number): number {
@@ -65,6 +76,7 @@ export class IchimokuIndicator {
     basePeriod = 26,
     spanBPeriod = 52,
     displacement = 26,
+    kijunFlatBars = 5,
   }: IchimokuParams) {
     const { highs, lows, closes } = candles;
     const len = Math.min(highs.length, lows.length, closes.length);
@@ -223,6 +235,52 @@ export class IchimokuIndicator {
     const chikouBull = lChikou != null ? lChikou > pricePast : false;
     const chikouBear = lChikou != null ? lChikou < pricePast : false;
 
+    // Nuvem projetada: os valores não deslocados das últimas `displacement` barras
+    // são a nuvem que será plotada de lastIndex+1 até lastIndex+displacement
+    const futureCloud: FutureCloudPoint[] = [];
+    for (let j = 1; j <= displacement; j++) {
+      const src = lastIndex - displacement + j;
+      const t = tenkan[src] as number | null;
+      const k = kijun[src] as number | null;
+      const b = spanB[src] as number | null;
+      if (t == null || k == null || b == null) continue;
+      futureCloud.push({ barsAhead: j, spanA: (t + k) / 2, spanB: b });
+    }
+    const leadingEdge = futureCloud[futureCloud.length - 1] ?? null;
+    const futureCloudBull = leadingEdge != null ? leadingEdge.spanA > leadingEdge.spanB : false;
+    const futureCloudBear = leadingEdge != null ? leadingEdge.spanA < leadingEdge.spanB : false;
+
+    // Kumo twist: primeira troca de cor da nuvem entre a barra atual e o fim da projeção
+    let kumoTwist: KumoTwist | null = null;
+    let prevSign = lSpanA != null && lSpanB != null ? Math.sign(lSpanA - lSpanB) : 0;
+    for (const p of futureCloud) {
+      const sign = Math.sign(p.spanA - p.spanB);
+      if (sign !== 0 && prevSign !== 0 && sign !== prevSign) {
+        kumoTwist = { direction: sign > 0 ? "bull" : "bear", barsAhead: p.barsAhead };
+        break;
+      }
+      if (sign !== 0) prevSign = sign;
+    }
+
+    // Kijun flat: equilíbrio de médio prazo parado, funciona como ímã (mercado lateral)
+    let kijunFlatRun = 0;
+    for (let i = lastIndex; i > 0; i--) {
+      const k = kijun[i] as number | null;
+      const pk = kijun[i - 1] as number | null;
+      if (k == null || pk == null || Math.abs(k - pk) > Math.abs(k) * 1e-9) break;
+      kijunFlatRun++;
+    }
+    const kijunFlat = kijunFlatRun >= kijunFlatBars;
+
+    // Estado explícito: preço dentro da nuvem = chop/neutro
+    const state: "bull" | "bear" | "chop" | "none" = priceInCloud
+      ? "chop"
+      : priceAboveCloud
+        ? "bull"
+        : priceBelowCloud
+          ? "bear"
+          : "none";
+
     // Regras profissionais (conservadoras):
     // Long: preço acima da nuvem + nuvem bullish + TK bullish (de preferência recente) + Chikou bullish + slopesUp
     // Short: espelhado
@@ -240,7 +298,8 @@ export class IchimokuIndicator {
       chikouBear &&
       (slopesDown || recentBearTK || recentCloudDown);
 
-    if (longStruct && !overExtendedLong) entrySignal = "long";
+    if (priceInCloud) entrySignal = "none";
+    else if (longStruct && !overExtendedLong) entrySignal = "long";
     else if (shortStruct && !overExtendedShort) entrySignal = "short";
     else entrySignal = "none";
 
@@ -259,6 +318,17 @@ export class IchimokuIndicator {
     let confidence = pieces.reduce((a, b) => a + b, 0);
     if (entrySignal === "none") confidence = Math.min(confidence, 0.6); // sem sinal, confiança capada
     if (overExtendedLong || overExtendedShort) confidence = Math.max(0.3, confidence - 0.15);
+    // nuvem futura a favor confirma; twist contra o sinal antecipa perda de tendência
+    const futureAgrees =
+      (entrySignal === "long" && futureCloudBull) || (entrySignal === "short" && futureCloudBear);
+    const twistAgainst =
+      kumoTwist != null &&
+      ((entrySignal === "long" && kumoTwist.direction === "bear") ||
+        (entrySignal === "short" && kumoTwist.direction === "bull"));
+    if (futureAgrees) confidence += 0.05;
+    if (twistAgainst) confidence -= 0.1;
+    if (kijunFlat && entrySignal !== "none") confidence -= 0.05;
+    if (priceInCloud) confidence = Math.min(confidence, 0.35); // chop: sem direção confiável
     confidence = Math.max(0, Math.min(1, confidence));
 
     return {
@@ -306,9 +376,27 @@ export class IchimokuIndicator {
       chikouBull,
       chikouBear,
 
+      state,
+      futureCloud,
+      futureCloudBull,
+      futureCloudBear,
+      kumoTwist,
+      futureAgrees,
+      twistAgainst,
+      kijunFlat,
+      kijunFlatRun,
+
       entrySignal,
       confidence,
-      meta: { convPeriod, basePeriod, spanBPeriod, displacement, lastIndex, recentWindow: RECENT },
+      meta: {
+        convPeriod,
+        basePeriod,
+        spanBPeriod,
+        displacement,
+        kijunFlatBars,
+        lastIndex,
+        recentWindow: RECENT,
+      },
     };
   }
 
@@ -346,6 +434,9 @@ export class IchimokuIndicator {
     if ((dir > 0 && strongLong) || (dir < 0 && strongShort)) quality = 1.0;
     if (r.overExtendedLong || r.overExtendedShort) quality = Math.min(quality, 0.8);
     if (r.priceInCloud) quality = Math.min(quality, 0.7); // em nuvem é mais incerto
+    if (dir !== 0 && !r.futureAgrees) quality = Math.min(quality, 0.9);
+    if (r.twistAgainst) quality = Math.min(quality, 0.75);
+    if (r.kijunFlat && dir !== 0) quality = Math.min(quality, 0.85); // Kijun flat puxa para lateral
 
     return {
       id: "ichimoku",
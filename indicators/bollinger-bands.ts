@@ -15,6 +15,16 @@ export type BollingerParams = {
   stdDev?: number; // default 2
   confirmOnClose?: boolean; // default true (usa última barra fechada)
   recentBars?: number; // janela p/ breakout recente (default 3)
+  // Squeeze estilo TTM (exige highs/lows): Bollinger dentro do Keltner
+  kcPeriod?: number; // EMA/ATR do Keltner (default = period)
+  kcMultiplier?: number; // múltiplo do ATR no Keltner (default 1.5)
+  donchianPeriod?: number; // canal de Donchian / base do momentum (default = period)
+};
+
+type Channel = {
+  upper: Array<number | null>;
+  middle: Array<number | null>;
+  lower: Array<number | null>;
 };
 
 type BBPoint = { lower: number; middle: number; upper: number };
@@ -26,6 +36,68 @@ function slopeAt(arr: Array<number | null>, idx: number, k: number): number {
   return (a - b) / k;
 }
 
+/** Keltner Channels: EMA(period) ± multiplier × ATR(period). */
+export function keltnerChannels(
+  candles: { highs: number[]; lows: number[]; closes: number[] },
+  { period = 20, multiplier = 1.5 }: { period?: number; multiplier?: number } = {},
+): Channel {
+  const { highs, lows, closes } = candles;
+  const len = closes.length;
+  const ema = padLeft(len, TI.EMA.calculate({ period, values: closes }));
+  const atr = padLeft(len, TI.ATR.calculate({ period, high: highs, low: lows, close: closes }));
+  const at = (i: number, k: number) => {
+    const m = ema[i];
+    const a = atr[i];
+    return m != null && a != null ? m + k * multiplier * a : null;
+  };
+  return {
+    upper: ema.map((_, i) => at(i, 1)),
+    middle: ema,
+    lower: ema.map((_, i) => at(i, -1)),
+  };
+}
+
+/** Donchian Channels: máxima/mínima das últimas `period` barras (inclui a barra atual). */
+export function donchianChannels(highs: number[], lows: number[], period = 20): Channel {
+  const len = Math.min(highs.length, lows.length);
+  const upper: Array<number | null> = Array(len).fill(null);
+  const lower: Array<number | null> = Array(len).fill(null);
+  for (let i = period - 1; i < len; i++) {
+    let hi = -Infinity;
+    let lo = Infinity;
+    for (let j = i - period + 1; j <= i; j++) {
+      if (highs[j] > hi) hi = highs[j];
+      if (lows[j] < lo) lo = lows[j];
+    }
+    upper[i] = hi;
+    lower[i] = lo;
+  }
+  const middle = upper.map((u, i) => (u != null && lower[i] != null ? (u + lower[i]!) / 2 : null));
+  return { upper, middle, lower };
+}
+
+// Valor da regressão linear no último ponto da janela (linreg do TTM)
+function linregLast(values: Array<number | null>, endIdx: number, window: number): number | null {
+  const start = endIdx - window + 1;
+  if (start < 0) return null;
+  let sx = 0,
+    sy = 0,
+    sxy = 0,
+    sxx = 0;
+  for (let i = 0; i < window; i++) {
+    const y = values[start + i];
+    if (y == null) return null;
+    sx += i;
+    sy += y;
+    sxy += i * y;
+    sxx += i * i;
+  }
+  const den = window * sxx - sx * sx;
+  const slope = den ? (window * sxy - sx * sy) / den : 0;
+  const intercept = (sy - slope * sx) / window;
+  return intercept + slope * (window - 1);
+}
+
 export class BollingerBandsIndicator {
   static calculate({
     candles,
@@ -33,6 +105,9 @@ export class BollingerBandsIndicator {
     stdDev = 2,
     confirmOnClose = true,
     recentBars = 3,
+    kcPeriod = period,
+    kcMultiplier = 1.5,
+    donchianPeriod = period,
   }: BollingerParams) {
     const closes = candles.closes;
     const len = closes.length;
@@ -138,10 +213,96 @@ export class BollingerBandsIndicator {
     const recentBreakoutUp = barsSinceBreakoutUp != null && barsSinceBreakoutUp <= recentBars;
     const recentBreakoutDown = barsSinceBreakoutDown != null && barsSinceBreakoutDown <= recentBars;
 
+    // --- Squeeze TTM (Bollinger dentro do Keltner) + momentum + Donchian
+    // Momentum: linreg(close − média(meio do Donchian, SMA do close)); disparo = fim do squeeze
+    const { highs, lows } = candles;
+    const hasHL = !!highs && !!lows && highs.length >= len && lows.length >= len;
+    let ttm: {
+      squeezeOn: boolean;
+      barsInSqueeze: number; // barras consecutivas em squeeze até a última (ou até o disparo)
+      barsSinceFire: number | null; // barras desde que o squeeze terminou
+      fired: "long" | "short" | null; // direção do disparo recente (sinal do momentum)
+      momentum: Array<number | null>;
+      momentumRising: boolean;
+      keltner: Channel;
+      donchian: Channel;
+      donchianBreakUp: boolean; // close acima da máxima das N barras anteriores
+      donchianBreakDown: boolean;
+    } | null = null;
+    if (hasHL) {
+      const hs = highs.slice(0, len);
+      const ls = lows.slice(0, len);
+      const keltner = keltnerChannels(
+        { highs: hs, lows: ls, closes },
+        {
+          period: kcPeriod,
+          multiplier: kcMultiplier,
+        },
+      );
+      const donchian = donchianChannels(hs, ls, donchianPeriod);
+      const sma = padLeft(len, TI.SMA.calculate({ period: donchianPeriod, values: closes }));
+      const delta = closes.map((c, i) => {
+        const dm = donchian.middle[i];
+        const m = sma[i];
+        return dm != null && m != null ? c - (dm + m) / 2 : null;
+      });
+      const momentum = delta.map((_, i) => linregLast(delta, i, donchianPeriod));
+      const sqAt = (i: number) => {
+        const ku = keltner.upper[i];
+        const kl = keltner.lower[i];
+        const bu = upper[i] as number | null;
+        const bl = lower[i] as number | null;
+        return ku != null && kl != null && bu != null && bl != null && bu < ku && bl > kl;
+      };
+
+      const squeezeOn = sqAt(lastIndex);
+      let barsSinceFire: number | null = null;
+      for (let i = lastIndex; i >= Math.max(1, lastIndex - 50); i--) {
+        if (!sqAt(i) && sqAt(i - 1)) {
+          barsSinceFire = lastIndex - i;
+          break;
+        }
+        if (sqAt(i)) break; // ainda (ou de novo) comprimido: sem disparo posterior
+      }
+      let barsInSqueeze = 0;
+      for (let i = lastIndex - (barsSinceFire != null ? barsSinceFire + 1 : 0); i >= 0; i--) {
+        if (!sqAt(i)) break;
+        barsInSqueeze++;
+      }
+
+      const lm = momentum[lastIndex];
+      const pm = momentum[prevIndex];
+      const momentumRising = lm != null && pm != null && Math.abs(lm) > Math.abs(pm);
+      const fired =
+        barsSinceFire != null && barsSinceFire <= recentBars && lm != null && lm !== 0
+          ? lm > 0
+            ? ("long" as const)
+            : ("short" as const)
+          : null;
+      const pdU = donchian.upper[prevIndex];
+      const pdL = donchian.lower[prevIndex];
+
+      ttm = {
+        squeezeOn,
+        barsInSqueeze,
+        barsSinceFire,
+        fired,
+        momentum,
+        momentumRising,
+        keltner,
+        donchian,
+        donchianBreakUp: pdU != null && lc > pdU,
+        donchianBreakDown: pdL != null && lc < pdL,
+      };
+    }
+
     // Estratégia “pro”:
+    // 0) Disparo do squeeze TTM: direção do momentum, que precisa estar ganhando força
     // 1) Continuação: breakout recente + slope da média a favor (ou walking the band)
     // 2) Mean reversion: apenas em squeeze + reentrada na banda (não só “toque”)
     let entrySignal: "long" | "short" | "none" = "none";
+    const ttmLong = ttm?.fired === "long" && ttm.momentumRising;
+    const ttmShort = ttm?.fired === "short" && ttm.momentumRising;
 
     // Continuação
     const contLong = (recentBreakoutUp || breakoutUp || walkingUp) && middleSlopePct > 0;
@@ -161,7 +322,9 @@ export class BollingerBandsIndicator {
       percentB > 0.65 &&
       Math.abs(middleSlopePct) < 0.15;
 
-    if (contLong) entrySignal = "long";
+    if (ttmLong) entrySignal = "long";
+    else if (ttmShort) entrySignal = "short";
+    else if (contLong) entrySignal = "long";
     else if (contShort) entrySignal = "short";
     else if (mrLong) entrySignal = "long";
     else if (mrShort) entrySignal = "short";
@@ -183,13 +346,21 @@ export class BollingerBandsIndicator {
         : 0;
 
     const breakoutBoost = recentBreakoutUp || recentBreakoutDown ? 0.15 : 0;
+    // Disparo do squeeze após compressão longa e rompimento do Donchian a favor reforçam
+    const ttmBoost =
+      (ttmLong || ttmShort ? 0.15 + Math.min(0.1, (ttm!.barsInSqueeze / 20) * 0.1) : 0) +
+      ((entrySignal === "long" && ttm?.donchianBreakUp) ||
+      (entrySignal === "short" && ttm?.donchianBreakDown)
+        ? 0.05
+        : 0);
 
     let confidence =
       structure +
       0.25 * (contLong || contShort ? widthFactor : squeezeFactor) +
       0.25 * distFromMid +
       0.25 * trendFactor +
-      breakoutBoost;
+      breakoutBoost +
+      ttmBoost;
 
     confidence = Math.max(0.3, Math.min(1, confidence));
 
@@ -209,6 +380,7 @@ export class BollingerBandsIndicator {
       middle,
       upper,
       widthPct,
+      widthPctRank: pctRank, // 0..1: percentil da largura no lookback do squeeze
       percentB,
       middleSlopePct,
       touchUpper,
@@ -220,12 +392,22 @@ export class BollingerBandsIndicator {
       walkingUp,
       walkingDown,
       squeeze,
+      ttm,
       barsSinceBreakoutUp,
       barsSinceBreakoutDown,
       recentBreakoutUp,
       recentBreakoutDown,
       entrySignal,
-      meta: { period, stdDev, lastIndex, squeezeLookback: SQUEEZE_LOOKBACK, slopeWindow: SLOPE_K },
+      meta: {
+        period,
+        stdDev,
+        lastIndex,
+        squeezeLookback: SQUEEZE_LOOKBACK,
+        slopeWindow: SLOPE_K,
+        kcPeriod,
+        kcMultiplier,
+        donchianPeriod,
+      },
       confidence,
     };
   }
@@ -248,6 +430,10 @@ export class BollingerBandsIndicator {
     const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
     const quality = (() => {
       if (r.entrySignal === "none") return 0.8;
+      // disparo do squeeze TTM com momentum crescendo
+      if (r.ttm?.fired && r.ttm.momentumRising && r.ttm.fired === r.entrySignal) {
+        return r.ttm.barsInSqueeze >= 6 ? 1 : 0.95;
+      }
       // promover continuação com largura expandindo e slope forte
       if (
         (r.breakoutUp || r.breakoutDown || r.walkingUp || r.walkingDown) &&
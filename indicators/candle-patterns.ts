@@ -0,0 +1,241 @@
+import * as TI from "technicalindicators";
+import { padLeft } from "../utils/pad-left.js";
+import { findPivots } from "../utils/pivots.js";
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  opens: number[];
+  highs: number[];
+  lows: number[];
+  closes: number[];
+};
+
+export type CandlePatternParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  requireContext?: boolean; // reversão só vale em swing/banda (default true)
+  pivotStrength?: number; // pivôs p/ níveis de swing (default 3)
+  lookback?: number; // janela dos swings (default 60)
+  atrPeriod?: number; // default 14
+  levelToleranceATR?: number; // distância máx. ao swing em ATRs (default 0.5)
+  bbPeriod?: number; // Bollinger p/ toque de banda (default 20)
+  bbStdDev?: number; // default 2
+};
+
+export type CandlePattern =
+  | "bullish-engulfing"
+  | "bearish-engulfing"
+  | "hammer"
+  | "shooting-star"
+  | "bullish-pin"
+  | "bearish-pin"
+  | "morning-star"
+  | "evening-star"
+  | "doji"
+  | "inside-bar"
+  | "bullish-outside"
+  | "bearish-outside";
+
+// Força relativa de cada padrão (0..1) e seu viés
+const PATTERN_INFO: Record<CandlePattern, { bias: 1 | -1 | 0; strength: number }> = {
+  "bullish-engulfing": { bias: 1, strength: 0.7 },
+  "bearish-engulfing": { bias: -1, strength: 0.7 },
+  "morning-star": { bias: 1, strength: 0.75 },
+  "evening-star": { bias: -1, strength: 0.75 },
+  hammer: { bias: 1, strength: 0.6 },
+  "shooting-star": { bias: -1, strength: 0.6 },
+  "bullish-pin": { bias: 1, strength: 0.65 },
+  "bearish-pin": { bias: -1, strength: 0.65 },
+  "bullish-outside": { bias: 1, strength: 0.5 },
+  "bearish-outside": { bias: -1, strength: 0.5 },
+  doji: { bias: 0, strength: 0.35 }, // indecisão: direção vem do contexto
+  "inside-bar": { bias: 0, strength: 0.3 }, // compressão: só informativo
+};
+
+function detectPatterns(c: Candles, i: number, avgBody: number): CandlePattern[] {
+  const { opens: o, highs: h, lows: l, closes: cl } = c;
+  const out: CandlePattern[] = [];
+  const body = (k: number) => Math.abs(cl[k] - o[k]);
+  const range = (k: number) => h[k] - l[k];
+  const bull = (k: number) => cl[k] > o[k];
+  const bear = (k: number) => cl[k] < o[k];
+  const upperWick = (k: number) => h[k] - Math.max(o[k], cl[k]);
+  const lowerWick = (k: number) => Math.min(o[k], cl[k]) - l[k];
+
+  const r = range(i);
+  if (r <= 0) return out;
+  const b = body(i);
+
+  if (b <= 0.1 * r) out.push("doji");
+
+  // Engolfo: corpo atual cobre o corpo anterior de cor oposta
+  if (bear(i - 1) && bull(i) && o[i] <= cl[i - 1] && cl[i] >= o[i - 1] && b > body(i - 1))
+    out.push("bullish-engulfing");
+  if (bull(i - 1) && bear(i) && o[i] >= cl[i - 1] && cl[i] <= o[i - 1] && b > body(i - 1))
+    out.push("bearish-engulfing");
+
+  // Martelo / estrela cadente: pavio >= 2× corpo, pavio oposto curto
+  if (b > 0 && lowerWick(i) >= 2 * b && upperWick(i) <= 0.5 * b) out.push("hammer");
+  if (b > 0 && upperWick(i) >= 2 * b && lowerWick(i) <= 0.5 * b) out.push("shooting-star");
+
+  // Pin bar: nariz >= 2/3 do range, corpo no terço oposto
+  if (lowerWick(i) >= (2 / 3) * r && Math.min(o[i], cl[i]) >= l[i] + (2 / 3) * r)
+    out.push("bullish-pin");
+  if (upperWick(i) >= (2 / 3) * r && Math.max(o[i], cl[i]) <= h[i] - (2 / 3) * r)
+    out.push("bearish-pin");
+
+  // Estrela da manhã/tarde: corpo grande, corpo pequeno, reação além do meio do 1º
+  if (i >= 2) {
+    const b1 = body(i - 2);
+    const mid1 = (o[i - 2] + cl[i - 2]) / 2;
+    const small2 = body(i - 1) <= 0.3 * b1;
+    if (b1 >= avgBody && small2 && bear(i - 2) && bull(i) && cl[i] > mid1) out.push("morning-star");
+    if (b1 >= avgBody && small2 && bull(i - 2) && bear(i) && cl[i] < mid1) out.push("evening-star");
+  }
+
+  // Inside / outside bar
+  if (h[i] < h[i - 1] && l[i] > l[i - 1]) out.push("inside-bar");
+  if (h[i] > h[i - 1] && l[i] < l[i - 1]) {
+    const pos = (cl[i] - l[i]) / r;
+    if (pos >= 2 / 3) out.push("bullish-outside");
+    else if (pos <= 1 / 3) out.push("bearish-outside");
+  }
+  return out;
+}
+
+export class CandlePatternIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    requireContext = true,
+    pivotStrength = 3,
+    lookback = 60,
+    atrPeriod = 14,
+    levelToleranceATR = 0.5,
+    bbPeriod = 20,
+    bbStdDev = 2,
+  }: CandlePatternParams) {
+    const { opens, highs, lows, closes } = candles;
+    const len = Math.min(opens.length, highs.length, lows.length, closes.length);
+    if (!len || len < Math.max(atrPeriod, bbPeriod) + 3) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    if (lastIndex < 2) {
+      return { ok: false as const, reason: "Dados insuficientes para confirmar no fechamento." };
+    }
+
+    const atr = padLeft(
+      len,
+      TI.ATR.calculate({ period: atrPeriod, high: highs, low: lows, close: closes }),
+    );
+    const bb = padLeft(
+      len,
+      TI.BollingerBands.calculate({ period: bbPeriod, values: closes, stdDev: bbStdDev }),
+    );
+    const lastATR = atr[lastIndex];
+    const lastBB = bb[lastIndex];
+    if (lastATR == null || lastBB == null) {
+      return { ok: false as const, reason: "ATR/Bollinger indisponíveis." };
+    }
+
+    let bodySum = 0;
+    for (let i = lastIndex - bbPeriod + 1; i <= lastIndex; i++)
+      bodySum += Math.abs(closes[i] - opens[i]);
+    const patterns = detectPatterns(candles, lastIndex, bodySum / bbPeriod);
+
+    // Contexto: padrão (ou a barra anterior, p/ padrões de 2-3 barras) num swing ou na banda
+    const tol = levelToleranceATR * lastATR;
+    const from = Math.max(0, lastIndex - lookback);
+    const end = lastIndex - 1; // swings anteriores à barra do padrão
+    const swingLows = findPivots(lows, pivotStrength, pivotStrength, end).lows.filter(
+      (p) => p.index >= from,
+    );
+    const swingHighs = findPivots(highs, pivotStrength, pivotStrength, end).highs.filter(
+      (p) => p.index >= from,
+    );
+    const barLow = Math.min(lows[lastIndex], lows[lastIndex - 1]);
+    const barHigh = Math.max(highs[lastIndex], highs[lastIndex - 1]);
+    const atSwingLow = swingLows.some((p) => Math.abs(barLow - p.value) <= tol);
+    const atSwingHigh = swingHighs.some((p) => Math.abs(barHigh - p.value) <= tol);
+    const touchLowerBand = barLow <= lastBB.lower;
+    const touchUpperBand = barHigh >= lastBB.upper;
+    const bullContext = atSwingLow || touchLowerBand;
+    const bearContext = atSwingHigh || touchUpperBand;
+
+    // Padrão mais forte de cada lado (doji herda a direção do contexto)
+    let bullStrength = 0;
+    let bearStrength = 0;
+    for (const p of patterns) {
+      const { bias, strength } = PATTERN_INFO[p];
+      if (bias > 0 || (bias === 0 && p === "doji" && bullContext && !bearContext))
+        bullStrength = Math.max(bullStrength, strength);
+      if (bias < 0 || (bias === 0 && p === "doji" && bearContext && !bullContext))
+        bearStrength = Math.max(bearStrength, strength);
+    }
+    if (requireContext) {
+      if (!bullContext) bullStrength = 0;
+      if (!bearContext) bearStrength = 0;
+    }
+
+    let entrySignal: "long" | "short" | "none" = "none";
+    if (bullStrength > bearStrength) entrySignal = "long";
+    else if (bearStrength > bullStrength) entrySignal = "short";
+
+    const strength = Math.max(bullStrength, bearStrength);
+    const contextBoth =
+      (entrySignal === "long" && atSwingLow && touchLowerBand) ||
+      (entrySignal === "short" && atSwingHigh && touchUpperBand);
+    const confidence =
+      entrySignal === "none"
+        ? 0.3
+        : Math.min(1, 0.35 + 0.45 * strength + (contextBoth ? 0.15 : 0.05));
+
+    return {
+      ok: true as const,
+      patterns,
+      context: { atSwingLow, atSwingHigh, touchLowerBand, touchUpperBand },
+      bullStrength,
+      bearStrength,
+      entrySignal,
+      confidence,
+      meta: { requireContext, pivotStrength, lookback, levelToleranceATR, lastIndex },
+    };
+  }
+
+  static decision(
+    params: CandlePatternParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof CandlePatternIndicator.calculate>> {
+    const r = CandlePatternIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "patterns",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+
+    // Qualidade: padrão forte (engolfo/estrela) em swing + banda ao mesmo tempo
+    const strength = Math.max(r.bullStrength, r.bearStrength);
+    const c = r.context;
+    const both = dir > 0 ? c.atSwingLow && c.touchLowerBand : c.atSwingHigh && c.touchUpperBand;
+    let quality = 0.8;
+    if (dir !== 0 && strength >= 0.7) quality = both ? 1.0 : 0.92;
+    else if (dir !== 0) quality = both ? 0.92 : 0.85;
+
+    return {
+      id: "patterns",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: dir !== 0 ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
@@ -0,0 +1,145 @@
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  closes: number[];
+  highs: number[];
+  lows: number[];
+  volumes: number[];
+};
+
+export type CmfParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  period?: number; // default 20
+  threshold?: number; // |CMF| mínimo p/ acumulação/distribuição (default 0.05)
+  slopeWindow?: number; // janela p/ direção do CMF (default 3)
+  recentBars?: number; // janela p/ cruzamento recente da linha zero (default 3)
+};
+
+export class ChaikinMoneyFlowIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    period = 20,
+    threshold = 0.05,
+    slopeWindow = 3,
+    recentBars = 3,
+  }: CmfParams) {
+    const { highs, lows, closes, volumes } = candles;
+    const len = Math.min(highs.length, lows.length, closes.length, volumes.length);
+    if (!len || len < period + slopeWindow + 2) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    if (lastIndex < 1) {
+      return { ok: false as const, reason: "Dados insuficientes para confirmar no fechamento." };
+    }
+
+    // Money Flow Volume = multiplicador (posição do close no range) × volume
+    const mfv: number[] = Array(len).fill(0);
+    for (let i = 0; i < len; i++) {
+      const range = highs[i] - lows[i];
+      const mult = range > 0 ? (closes[i] - lows[i] - (highs[i] - closes[i])) / range : 0;
+      mfv[i] = mult * Math.max(0, volumes[i] ?? 0);
+    }
+    const cmf: Array<number | null> = Array(len).fill(null);
+    let sumMfv = 0;
+    let sumVol = 0;
+    for (let i = 0; i < len; i++) {
+      sumMfv += mfv[i];
+      sumVol += Math.max(0, volumes[i] ?? 0);
+      if (i >= period) {
+        sumMfv -= mfv[i - period];
+        sumVol -= Math.max(0, volumes[i - period] ?? 0);
+      }
+      if (i >= period - 1) cmf[i] = sumVol > 0 ? sumMfv / sumVol : 0;
+    }
+
+    const lastCmf = cmf[lastIndex];
+    const refCmf = cmf[lastIndex - slopeWindow];
+    if (lastCmf == null || refCmf == null) {
+      return { ok: false as const, reason: "CMF indisponível no índice atual." };
+    }
+    const slope = (lastCmf - refCmf) / slopeWindow;
+
+    let barsSinceZeroUp: number | null = null;
+    let barsSinceZeroDown: number | null = null;
+    for (let i = lastIndex; i >= Math.max(1, lastIndex - 50); i--) {
+      const c = cmf[i],
+        p = cmf[i - 1];
+      if (c == null || p == null) break;
+      if (barsSinceZeroUp == null && p <= 0 && c > 0) barsSinceZeroUp = lastIndex - i;
+      if (barsSinceZeroDown == null && p >= 0 && c < 0) barsSinceZeroDown = lastIndex - i;
+      if (barsSinceZeroUp != null && barsSinceZeroDown != null) break;
+    }
+    const recentZeroUp = barsSinceZeroUp != null && barsSinceZeroUp <= recentBars;
+    const recentZeroDown = barsSinceZeroDown != null && barsSinceZeroDown <= recentBars;
+
+    // Acumulação: CMF acima do limiar e não caindo; distribuição: abaixo de -limiar e não subindo
+    const accumulation = lastCmf >= threshold && slope >= 0;
+    const distribution = lastCmf <= -threshold && slope <= 0;
+    const entrySignal: "long" | "short" | "none" = accumulation
+      ? "long"
+      : distribution
+        ? "short"
+        : "none";
+
+    // Confiança: intensidade (|CMF| 0.25 satura), inclinação e virada recente da linha zero
+    const levelFactor = Math.min(1, Math.abs(lastCmf) / 0.25);
+    const slopeFactor = Math.min(1, Math.abs(slope) / 0.03);
+    const zeroBoost =
+      (entrySignal === "long" && recentZeroUp) || (entrySignal === "short" && recentZeroDown)
+        ? 0.1
+        : 0;
+    const base = entrySignal !== "none" ? 0.45 : 0.3;
+    const confidence = Math.min(1, base + 0.3 * levelFactor + 0.15 * slopeFactor + zeroBoost);
+
+    return {
+      ok: true as const,
+      last: { cmf: lastCmf, slope },
+      cmf,
+      accumulation,
+      distribution,
+      barsSinceZeroUp,
+      barsSinceZeroDown,
+      recentZeroUp,
+      recentZeroDown,
+      entrySignal,
+      confidence,
+      meta: { period, threshold, slopeWindow, recentBars, lastIndex },
+    };
+  }
+
+  static decision(
+    params: CmfParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof ChaikinMoneyFlowIndicator.calculate>> {
+    const r = ChaikinMoneyFlowIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "cmf",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+
+    // Qualidade: fluxo bem acima do limiar (|CMF| >= 0.15) é acumulação/distribuição clara
+    let quality = 0.85;
+    if (dir !== 0 && Math.abs(r.last.cmf) >= 0.15) quality = 1.0;
+    else if (dir !== 0) quality = 0.9;
+
+    return {
+      id: "cmf",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: dir !== 0 ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
@@ -0,0 +1,138 @@
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  closes: number[];
+  fundingRates: Array<number | null>; // taxa vigente alinhada a cada barra
+  fundingTimes?: Array<number | null>; // fundingTime da liquidação vigente (identifica cada liquidação)
+  premium?: Array<number | null>; // premium index (close) alinhado, opcional
+};
+
+export type FundingParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  lookback?: number; // janela do z-score em liquidações (default 90 ≈ 30 dias)
+  extremeZ?: number; // |z| p/ considerar extremo (default 2)
+  extremeRate?: number; // |taxa| absoluta extrema (default 0.0005 = 0,05% por liquidação)
+  requireReversal?: boolean; // exige candle virando contra a multidão (default true)
+};
+
+export class FundingRateIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    lookback = 90,
+    extremeZ = 2,
+    extremeRate = 0.0005,
+    requireReversal = true,
+  }: FundingParams) {
+    const { closes, fundingRates, fundingTimes, premium } = candles;
+    const len = Math.min(closes.length, fundingRates.length);
+    if (!len || len < 3) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    const lastRate = fundingRates[lastIndex];
+    if (lastRate == null) {
+      return { ok: false as const, reason: "Funding indisponível na barra de referência." };
+    }
+
+    // z-score sobre as liquidações distintas (a taxa se repete em todas as barras entre
+    // duas liquidações; contá-las barra a barra colapsa o desvio padrão). Sem fundingTimes,
+    // cada mudança de taxa marca uma nova liquidação.
+    const win: number[] = [];
+    let prevKey: number | null = null;
+    for (let i = lastIndex; i >= 0 && win.length < lookback; i--) {
+      const v = fundingRates[i];
+      if (v == null || !Number.isFinite(v)) continue;
+      const key = fundingTimes?.[i] ?? v;
+      if (key === prevKey) continue;
+      prevKey = key;
+      win.push(v);
+    }
+    const mean = win.reduce((a, b) => a + b, 0) / win.length;
+    const variance =
+      win.length > 1 ? win.reduce((a, b) => a + (b - mean) ** 2, 0) / (win.length - 1) : 0;
+    const std = Math.sqrt(variance);
+    const zRate = std > 0 ? (lastRate - mean) / std : 0;
+
+    // Extremos: longs pagando caro (lotado na compra) ou shorts pagando caro
+    const crowdedLong = lastRate >= extremeRate || (zRate >= extremeZ && lastRate > 0);
+    const crowdedShort = lastRate <= -extremeRate || (zRate <= -extremeZ && lastRate < 0);
+
+    // Premium index com mesmo sinal reforça (próximo funding tende a seguir)
+    const lastPremium = premium?.[lastIndex] ?? null;
+    const premiumAgrees =
+      lastPremium != null &&
+      ((crowdedLong && lastPremium > 0) || (crowdedShort && lastPremium < 0));
+
+    const barDown = closes[lastIndex] < closes[lastIndex - 1];
+    const barUp = closes[lastIndex] > closes[lastIndex - 1];
+
+    // Contrário à multidão
+    let entrySignal: "long" | "short" | "none" = "none";
+    if (crowdedLong && (!requireReversal || barDown)) entrySignal = "short";
+    else if (crowdedShort && (!requireReversal || barUp)) entrySignal = "long";
+
+    // Confiança: intensidade do extremo (z e taxa absoluta) + confirmação do premium
+    const zFactor = Math.min(1, Math.abs(zRate) / (extremeZ * 1.5));
+    const rateFactor = Math.min(1, Math.abs(lastRate) / (extremeRate * 2));
+    const base = entrySignal !== "none" ? 0.45 : 0.3;
+    const confidence = Math.min(
+      1,
+      base + 0.25 * zFactor + 0.2 * rateFactor + (premiumAgrees ? 0.1 : 0),
+    );
+
+    return {
+      ok: true as const,
+      last: { fundingRate: lastRate, premium: lastPremium, zRate },
+      mean,
+      std,
+      crowdedLong,
+      crowdedShort,
+      premiumAgrees,
+      entrySignal,
+      confidence,
+      meta: {
+        lookback,
+        settlements: win.length,
+        extremeZ,
+        extremeRate,
+        requireReversal,
+        lastIndex,
+      },
+    };
+  }
+
+  static decision(
+    params: FundingParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof FundingRateIndicator.calculate>> {
+    const r = FundingRateIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "funding",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+
+    // Qualidade: contrário puro é arriscado; melhora com premium alinhado e |z| alto
+    let quality = 0.8;
+    if (r.premiumAgrees) quality = 0.9;
+    if (r.premiumAgrees && Math.abs(r.last.zRate) >= (params.extremeZ ?? 2) * 1.5) quality = 1.0;
+
+    return {
+      id: "funding",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: dir !== 0 ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import * as TI from "technicalindicators";
+import { detectDivergences } from "../utils/divergence";
 import { padLeft } from "../utils/pad-left";
 import { IIndicatorDecisionMin } from "./types";
 
@@ -16,6 +17,9 @@ export type MacdParams = {
   slowPeriod?: number; // default 26
   signalPeriod?: number; // default 9
   recentBars?: number; // janela p/ cruzamentos "recentes" (default 3)
+  divergence?: boolean; // divergência preço × histograma por pivôs (default true)
+  pivotStrength?: number; // barras de cada lado p/ confirmar pivô (default 3)
+  divergenceLookback?: number; // janela de busca dos pivôs (default 60)
 };
 
 type MacdPoint = { MACD: number; signal: number; histogram: number };
@@ -47,6 +51,9 @@ export class MACDIndicator {
     slowPeriod = 26,
     signalPeriod = 9,
     recentBars = 3,
+    divergence = true,
+    pivotStrength = 3,
+    divergenceLookback = 60,
   }: MacdParams) {
     const closes = candles.closes;
     const len = closes.length;
@@ -192,7 +199,27 @@ export class MACDIndicator {
             ? "short"
             : "none";
 
-    // Confidence (0..1): combina votos + histStrength + z-scores + recência
+    // Divergências preço × histograma (ativas = pivô recente: confirmação + recentBars)
+    const div = divergence
+      ? detectDivergences({
+          highs: candles.highs ?? closes,
+          lows: candles.lows ?? closes,
+          oscillator: hist,
+          endIndex: lastIndex,
+          pivotStrength,
+          lookback: divergenceLookback,
+        })
+      : { bullish: null, bearish: null, latest: null };
+    const maxDivAge = pivotStrength + recentBars;
+    const bullDiv = div.bullish && div.bullish.barsAgo <= maxDivAge ? div.bullish : null;
+    const bearDiv = div.bearish && div.bearish.barsAgo <= maxDivAge ? div.bearish : null;
+    const divAgree = entrySignal === "long" ? bullDiv : entrySignal === "short" ? bearDiv : null;
+    const divAgainst = entrySignal === "long" ? bearDiv : entrySignal === "short" ? bullDiv : null;
+    const divBoost =
+      (divAgree ? (divAgree.kind.startsWith("regular") ? 0.12 : 0.06) : 0) -
+      (divAgainst?.kind.startsWith("regular") ? 0.1 : 0);
+
+    // Confidence (0..1): combina votos + histStrength + z-scores + recência + divergência
     // Observação: no seu código original a confidence saturava ~0.62.
     const votes = [
       macdAboveSignal ? 1 : -1,
@@ -219,7 +246,8 @@ export class MACDIndicator {
           0.25 * histFactor +
           0.2 * zMacdFactor +
           0.15 * zHistFactor +
-          recencyBoost,
+          recencyBoost +
+          divBoost,
       ),
     );
 
@@ -263,9 +291,18 @@ export class MACDIndicator {
       recentZeroUp,
       recentZeroDown,
       bias,
+      divergence: { bullish: bullDiv, bearish: bearDiv, latest: div.latest },
       confidence,
       entrySignal,
-      meta: { fastPeriod, slowPeriod, signalPeriod, lastIndex, recentBars },
+      meta: {
+        fastPeriod,
+        slowPeriod,
+        signalPeriod,
+        lastIndex,
+        recentBars,
+        pivotStrength,
+        divergenceLookback,
+      },
     };
   }
 
@@ -306,6 +343,8 @@ export class MACDIndicator {
           if ((r.recentBull && strongStructLong) || (r.recentBear && strongStructShort)) q = 1.0;
           else if (strongStructLong || strongStructShort) q = Math.max(q, 0.92);
           if (r.confidence >= 0.85) q = Math.max(q, 0.95);
+          const divAgree = dir > 0 ? r.divergence.bullish : dir < 0 ? r.divergence.bearish : null;
+          if (divAgree?.kind.startsWith("regular")) q = Math.max(q, 0.95);
           return q;
         })(),
       ),
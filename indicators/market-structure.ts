@@ -0,0 +1,194 @@
+import { findPivots } from "../utils/pivots.js";
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  closes: number[];
+  highs: number[];
+  lows: number[];
+  times?: number[]; // closeTime (ms) p/ datar swings e eventos
+};
+
+export type MarketStructureParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  pivotStrength?: number; // barras de cada lado p/ confirmar swing (default 3)
+  lookback?: number; // barras analisadas (default 300)
+  recentBars?: number; // janela p/ evento (BOS/CHoCH) recente (default 5)
+};
+
+export type SwingLabel = "HH" | "LH" | "HL" | "LL";
+export type StructureTrend = "bull" | "bear" | "neutral";
+
+export type Swing = {
+  index: number;
+  time?: number;
+  price: number;
+  side: "high" | "low";
+  label?: SwingLabel; // relativo ao swing anterior do mesmo lado
+};
+
+export type StructureEvent = {
+  type: "BOS" | "CHoCH"; // continuação (break of structure) / reversão (change of character)
+  direction: "bull" | "bear";
+  index: number; // barra que fechou além do swing
+  time?: number;
+  level: number; // preço do swing rompido
+  swingIndex: number;
+};
+
+export class MarketStructureIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    pivotStrength = 3,
+    lookback = 300,
+    recentBars = 5,
+  }: MarketStructureParams) {
+    const { highs, lows, closes, times } = candles;
+    const len = Math.min(highs.length, lows.length, closes.length);
+    if (!len || len < pivotStrength * 4 + 2) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    if (lastIndex < 1) {
+      return { ok: false as const, reason: "Dados insuficientes para confirmar no fechamento." };
+    }
+
+    const from = Math.max(0, lastIndex - lookback);
+    const ph = findPivots(highs, pivotStrength, pivotStrength, lastIndex).highs;
+    const pl = findPivots(lows, pivotStrength, pivotStrength, lastIndex).lows;
+    const swings: Swing[] = [
+      ...ph.map((p) => ({ index: p.index, price: p.value, side: "high" as const })),
+      ...pl.map((p) => ({ index: p.index, price: p.value, side: "low" as const })),
+    ]
+      .filter((s) => s.index >= from)
+      .sort((a, b) => a.index - b.index)
+      .map((s) => ({ ...s, time: times?.[s.index] }));
+
+    // Rótulos HH/LH/HL/LL
+    let prevHigh: Swing | null = null;
+    let prevLow: Swing | null = null;
+    for (const s of swings) {
+      if (s.side === "high") {
+        if (prevHigh) s.label = s.price > prevHigh.price ? "HH" : "LH";
+        prevHigh = s;
+      } else {
+        if (prevLow) s.label = s.price < prevLow.price ? "LL" : "HL";
+        prevLow = s;
+      }
+    }
+
+    // Varre barra a barra: um swing só pode ser rompido depois de confirmado (+pivotStrength)
+    const events: StructureEvent[] = [];
+    let trend: StructureTrend = "neutral";
+    let activeHigh: Swing | null = null;
+    let activeLow: Swing | null = null;
+    let k = 0;
+    for (let i = from; i <= lastIndex; i++) {
+      while (k < swings.length && swings[k].index + pivotStrength <= i) {
+        if (swings[k].side === "high") activeHigh = swings[k];
+        else activeLow = swings[k];
+        k++;
+      }
+      if (activeHigh && closes[i] > activeHigh.price) {
+        events.push({
+          type: trend === "bear" ? "CHoCH" : "BOS",
+          direction: "bull",
+          index: i,
+          time: times?.[i],
+          level: activeHigh.price,
+          swingIndex: activeHigh.index,
+        });
+        trend = "bull";
+        activeHigh = null; // cada swing rompe uma vez
+      } else if (activeLow && closes[i] < activeLow.price) {
+        events.push({
+          type: trend === "bull" ? "CHoCH" : "BOS",
+          direction: "bear",
+          index: i,
+          time: times?.[i],
+          level: activeLow.price,
+          swingIndex: activeLow.index,
+        });
+        trend = "bear";
+        activeLow = null;
+      }
+    }
+
+    const lastEvent = events[events.length - 1] ?? null;
+    const barsSinceEvent = lastEvent ? lastIndex - lastEvent.index : null;
+    const recentEvent = barsSinceEvent != null && barsSinceEvent <= recentBars;
+
+    // Sequência dos dois últimos swings de cada lado confirma (ou não) o estado
+    const lastHigh = [...swings].reverse().find((s) => s.side === "high") ?? null;
+    const lastLow = [...swings].reverse().find((s) => s.side === "low") ?? null;
+    const sequenceAgrees =
+      trend === "bull"
+        ? lastHigh?.label === "HH" && lastLow?.label === "HL"
+        : trend === "bear"
+          ? lastHigh?.label === "LH" && lastLow?.label === "LL"
+          : false;
+
+    const entrySignal: "long" | "short" | "none" =
+      trend === "bull" ? "long" : trend === "bear" ? "short" : "none";
+
+    // Stops estruturais: último fundo (alta) / último topo (baixa)
+    const stopLong = trend === "bull" && lastLow ? lastLow.price : undefined;
+    const stopShort = trend === "bear" && lastHigh ? lastHigh.price : undefined;
+
+    // Confiança: estado + sequência coerente + evento recente (CHoCH recente é mais frágil)
+    const eventBoost = recentEvent ? (lastEvent!.type === "BOS" ? 0.2 : 0.12) : 0;
+    const confidence =
+      entrySignal === "none" ? 0.3 : Math.min(1, 0.45 + (sequenceAgrees ? 0.25 : 0) + eventBoost);
+
+    return {
+      ok: true as const,
+      trend,
+      swings,
+      events,
+      lastEvent,
+      barsSinceEvent,
+      recentEvent,
+      lastHigh,
+      lastLow,
+      sequenceAgrees,
+      stopLong,
+      stopShort,
+      entrySignal,
+      confidence,
+      meta: { pivotStrength, lookback, recentBars, lastIndex },
+    };
+  }
+
+  static decision(
+    params: MarketStructureParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof MarketStructureIndicator.calculate>> {
+    const r = MarketStructureIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "structure",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+
+    // Qualidade: HH/HL (ou LH/LL) coerentes com o último rompimento
+    let quality = 0.85;
+    if (dir !== 0 && r.sequenceAgrees) quality = r.lastEvent?.type === "BOS" ? 1.0 : 0.92;
+
+    return {
+      id: "structure",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: dir !== 0 && r.recentEvent ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
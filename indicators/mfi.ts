@@ -0,0 +1,136 @@
+import * as TI from "technicalindicators";
+import { padLeft } from "../utils/pad-left.js";
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  closes: number[];
+  highs: number[];
+  lows: number[];
+  volumes: number[];
+};
+
+export type MfiParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  period?: number; // default 14
+  overbought?: number; // default 80
+  oversold?: number; // default 20
+  slopeWindow?: number; // default 3
+  recentBars?: number; // janela p/ saída recente de OB/OS (default 3)
+};
+
+export class MFIIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    period = 14,
+    overbought = 80,
+    oversold = 20,
+    slopeWindow = 3,
+    recentBars = 3,
+  }: MfiParams) {
+    const { highs, lows, closes, volumes } = candles;
+    const len = Math.min(highs.length, lows.length, closes.length, volumes.length);
+    if (!len || len < period + slopeWindow + 2) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    if (lastIndex < 1) {
+      return { ok: false as const, reason: "Dados insuficientes para confirmar no fechamento." };
+    }
+
+    const mfi = padLeft(
+      len,
+      TI.MFI.calculate({
+        high: highs.slice(0, len),
+        low: lows.slice(0, len),
+        close: closes.slice(0, len),
+        volume: volumes.slice(0, len),
+        period,
+      }),
+    );
+
+    const lastMfi = mfi[lastIndex];
+    const refMfi = mfi[lastIndex - slopeWindow];
+    if (lastMfi == null || refMfi == null) {
+      return { ok: false as const, reason: "MFI indisponível no índice atual." };
+    }
+    const slope = (lastMfi - refMfi) / slopeWindow;
+
+    // Saída de zona extrema (o "RSI com volume")
+    let barsSinceExitOversold: number | null = null;
+    let barsSinceExitOverbought: number | null = null;
+    for (let i = lastIndex; i >= Math.max(1, lastIndex - 50); i--) {
+      const c = mfi[i],
+        p = mfi[i - 1];
+      if (c == null || p == null) break;
+      if (barsSinceExitOversold == null && p <= oversold && c > oversold)
+        barsSinceExitOversold = lastIndex - i;
+      if (barsSinceExitOverbought == null && p >= overbought && c < overbought)
+        barsSinceExitOverbought = lastIndex - i;
+      if (barsSinceExitOversold != null && barsSinceExitOverbought != null) break;
+    }
+    const recentExitOversold = barsSinceExitOversold != null && barsSinceExitOversold <= recentBars;
+    const recentExitOverbought =
+      barsSinceExitOverbought != null && barsSinceExitOverbought <= recentBars;
+
+    const entrySignal: "long" | "short" | "none" =
+      recentExitOversold && slope > 0
+        ? "long"
+        : recentExitOverbought && slope < 0
+          ? "short"
+          : "none";
+
+    // Confiança: saída de zona é o gatilho; inclinação e distância ao meio reforçam
+    const slopeFactor = Math.min(1, Math.abs(slope) / 8);
+    const base = entrySignal !== "none" ? 0.55 : 0.3;
+    const confidence = Math.min(
+      1,
+      base + 0.25 * slopeFactor + 0.15 * Math.min(1, Math.abs(lastMfi - 50) / 30),
+    );
+
+    return {
+      ok: true as const,
+      last: { mfi: lastMfi, slope },
+      mfi,
+      overbought: lastMfi >= overbought,
+      oversold: lastMfi <= oversold,
+      barsSinceExitOversold,
+      barsSinceExitOverbought,
+      recentExitOversold,
+      recentExitOverbought,
+      entrySignal,
+      confidence,
+      meta: { period, overbought, oversold, slopeWindow, recentBars, lastIndex },
+    };
+  }
+
+  static decision(
+    params: MfiParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof MFIIndicator.calculate>> {
+    const r = MFIIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "mfi",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+    const quality = dir !== 0 ? 0.92 : 0.85;
+
+    return {
+      id: "mfi",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: dir !== 0 ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
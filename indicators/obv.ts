@@ -0,0 +1,167 @@
+import { detectDivergences } from "../utils/divergence.js";
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  closes: number[];
+  volumes: number[];
+  highs?: number[];
+  lows?: number[];
+};
+
+export type ObvParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  slopeWindow?: number; // janela da regressão linear do OBV (default 10)
+  signalPeriod?: number; // EMA do OBV usada como linha de sinal (default 20)
+  divergence?: boolean; // divergência preço × OBV (default true)
+  pivotStrength?: number; // barras de cada lado p/ confirmar pivô (default 3)
+  divergenceLookback?: number; // janela de busca dos pivôs (default 60)
+  recentBars?: number; // frescor da divergência após confirmação (default 3)
+};
+
+function linregSlope(values: number[], endIdx: number, window: number): number {
+  const start = Math.max(0, endIdx - window + 1);
+  const n = endIdx - start + 1;
+  if (n < 2) return 0;
+  let sx = 0,
+    sy = 0,
+    sxy = 0,
+    sxx = 0;
+  for (let i = 0; i < n; i++) {
+    const y = values[start + i];
+    sx += i;
+    sy += y;
+    sxy += i * y;
+    sxx += i * i;
+  }
+  const den = n * sxx - sx * sx;
+  return den ? (n * sxy - sx * sy) / den : 0;
+}
+
+export class OBVIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    slopeWindow = 10,
+    signalPeriod = 20,
+    divergence = true,
+    pivotStrength = 3,
+    divergenceLookback = 60,
+    recentBars = 3,
+  }: ObvParams) {
+    const { closes, volumes } = candles;
+    const len = Math.min(closes.length, volumes.length);
+    if (!len || len < Math.max(slopeWindow, signalPeriod) + 2) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    if (lastIndex < 1) {
+      return { ok: false as const, reason: "Dados insuficientes para confirmar no fechamento." };
+    }
+
+    // OBV acumulado + EMA de sinal
+    const obv: number[] = Array(len).fill(0);
+    for (let i = 1; i < len; i++) {
+      const v = Math.max(0, volumes[i] ?? 0);
+      obv[i] = obv[i - 1] + (closes[i] > closes[i - 1] ? v : closes[i] < closes[i - 1] ? -v : 0);
+    }
+    const k = 2 / (signalPeriod + 1);
+    const signal: number[] = Array(len).fill(0);
+    signal[0] = obv[0];
+    for (let i = 1; i < len; i++) signal[i] = obv[i] * k + signal[i - 1] * (1 - k);
+
+    // Slope normalizado pelo volume médio da janela (≈ fração do volume por barra)
+    let volSum = 0;
+    for (let i = Math.max(0, lastIndex - slopeWindow + 1); i <= lastIndex; i++)
+      volSum += volumes[i];
+    const avgVol = volSum / Math.min(slopeWindow, lastIndex + 1) || 1;
+    const slope = linregSlope(obv, lastIndex, slopeWindow);
+    const slopeNorm = slope / avgVol; // +1 ≈ toda barra fechando em alta
+
+    const lastObv = obv[lastIndex];
+    const lastSignal = signal[lastIndex];
+    const aboveSignal = lastObv > lastSignal;
+
+    const div = divergence
+      ? detectDivergences({
+          highs: candles.highs ?? closes,
+          lows: candles.lows ?? closes,
+          oscillator: obv,
+          endIndex: lastIndex,
+          pivotStrength,
+          lookback: divergenceLookback,
+        })
+      : { bullish: null, bearish: null, latest: null };
+    const maxDivAge = pivotStrength + recentBars;
+    const bullDiv = div.bullish && div.bullish.barsAgo <= maxDivAge ? div.bullish : null;
+    const bearDiv = div.bearish && div.bearish.barsAgo <= maxDivAge ? div.bearish : null;
+
+    // Acumulação: OBV acima do sinal e subindo (ou divergência regular de alta com OBV subindo)
+    // Distribuição: análogo para baixo
+    const accumulation =
+      (aboveSignal && slopeNorm > 0.1) || (bullDiv?.kind === "regular-bullish" && slopeNorm > 0);
+    const distribution =
+      (!aboveSignal && slopeNorm < -0.1) || (bearDiv?.kind === "regular-bearish" && slopeNorm < 0);
+
+    const entrySignal: "long" | "short" | "none" = accumulation
+      ? "long"
+      : distribution
+        ? "short"
+        : "none";
+
+    const agree = entrySignal === "long" ? bullDiv : entrySignal === "short" ? bearDiv : null;
+    const slopeFactor = Math.min(1, Math.abs(slopeNorm) / 0.6);
+    const base = entrySignal !== "none" ? 0.45 : 0.3;
+    const confidence = Math.min(
+      1,
+      base + 0.35 * slopeFactor + (agree ? (agree.kind.startsWith("regular") ? 0.15 : 0.08) : 0),
+    );
+
+    return {
+      ok: true as const,
+      last: { obv: lastObv, signal: lastSignal, slopeNorm },
+      obv,
+      signal,
+      aboveSignal,
+      slopeNorm,
+      divergence: { bullish: bullDiv, bearish: bearDiv, latest: div.latest },
+      entrySignal,
+      confidence,
+      meta: { slopeWindow, signalPeriod, pivotStrength, divergenceLookback, lastIndex },
+    };
+  }
+
+  static decision(
+    params: ObvParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof OBVIndicator.calculate>> {
+    const r = OBVIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "obv",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+
+    // Qualidade: fluxo forte na direção; divergência regular a favor = setup completo
+    let quality = 0.85;
+    if (Math.abs(r.slopeNorm) >= 0.4) quality = 0.92;
+    const agree = dir > 0 ? r.divergence.bullish : dir < 0 ? r.divergence.bearish : null;
+    if (agree?.kind.startsWith("regular")) quality = 1.0;
+
+    return {
+      id: "obv",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: dir !== 0 ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
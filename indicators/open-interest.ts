@@ -0,0 +1,118 @@
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  closes: number[];
+  openInterest: Array<number | null>; // contratos em aberto alinhados a cada barra
+};
+
+export type OpenInterestParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  lookback?: number; // barras p/ medir variação de preço e OI (default 12)
+  minOiChangePct?: number; // variação mínima do OI em % (default 1)
+  minPriceChangePct?: number; // variação mínima do preço em % (default 0.3)
+};
+
+export type OiRegime =
+  | "new-longs" // preço ↑ OI ↑: dinheiro novo comprando
+  | "new-shorts" // preço ↓ OI ↑: dinheiro novo vendendo
+  | "short-covering" // preço ↑ OI ↓: alta sem convicção
+  | "long-liquidation" // preço ↓ OI ↓: queda por saída de posições
+  | "neutral";
+
+export class OpenInterestIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    lookback = 12,
+    minOiChangePct = 1,
+    minPriceChangePct = 0.3,
+  }: OpenInterestParams) {
+    const { closes, openInterest } = candles;
+    const len = Math.min(closes.length, openInterest.length);
+    if (!len || len < lookback + 2) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    const fromIndex = lastIndex - lookback;
+    const oiNow = openInterest[lastIndex];
+    const oiPrev = openInterest[fromIndex];
+    if (oiNow == null || oiPrev == null || oiPrev <= 0) {
+      return { ok: false as const, reason: "Open interest indisponível na janela." };
+    }
+
+    const priceChangePct = ((closes[lastIndex] - closes[fromIndex]) / closes[fromIndex]) * 100;
+    const oiChangePct = ((oiNow - oiPrev) / oiPrev) * 100;
+
+    const priceUp = priceChangePct >= minPriceChangePct;
+    const priceDown = priceChangePct <= -minPriceChangePct;
+    const oiUp = oiChangePct >= minOiChangePct;
+    const oiDown = oiChangePct <= -minOiChangePct;
+
+    let regime: OiRegime = "neutral";
+    if (priceUp && oiUp) regime = "new-longs";
+    else if (priceDown && oiUp) regime = "new-shorts";
+    else if (priceUp && oiDown) regime = "short-covering";
+    else if (priceDown && oiDown) regime = "long-liquidation";
+
+    // Divergência: movimento de preço não sustentado por novas posições
+    const divergence = regime === "short-covering" || regime === "long-liquidation";
+
+    // Só vota quando o OI confirma o preço
+    const entrySignal: "long" | "short" | "none" =
+      regime === "new-longs" ? "long" : regime === "new-shorts" ? "short" : "none";
+
+    // Confiança: magnitude das variações (satura em 3x o limiar); divergência derruba
+    const oiFactor = Math.min(1, Math.abs(oiChangePct) / (minOiChangePct * 3));
+    const priceFactor = Math.min(1, Math.abs(priceChangePct) / (minPriceChangePct * 3));
+    let confidence = Math.min(
+      1,
+      (entrySignal !== "none" ? 0.45 : 0.3) + 0.35 * oiFactor + 0.2 * priceFactor,
+    );
+    if (divergence) confidence = Math.min(confidence, 0.4);
+
+    return {
+      ok: true as const,
+      last: { openInterest: oiNow, oiChangePct, priceChangePct },
+      regime,
+      divergence,
+      entrySignal,
+      confidence,
+      meta: { lookback, minOiChangePct, minPriceChangePct, lastIndex },
+    };
+  }
+
+  static decision(
+    params: OpenInterestParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof OpenInterestIndicator.calculate>> {
+    const r = OpenInterestIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "oi",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+
+    // Qualidade: OI crescendo forte junto com o preço é o setup mais limpo
+    let quality = 0.85;
+    if (dir !== 0 && Math.abs(r.last.oiChangePct) >= (params.minOiChangePct ?? 1) * 2)
+      quality = 1.0;
+    if (r.divergence) quality = 0.7;
+
+    return {
+      id: "oi",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: dir !== 0 ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import * as TI from "technicalindicators";
+import { padLeft } from "../utils/pad-left.js";
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  closes: number[];
+  highs: number[];
+  lows: number[];
+};
+
+export type PsarParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  step?: number; // aceleração inicial (default 0.02)
+  max?: number; // aceleração máxima (default 0.2)
+  recentBars?: number; // janela p/ virada recente (default 3)
+  atrPeriod?: number; // ATR p/ medir distância do SAR (default 14)
+};
+
+export class PSARIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    step = 0.02,
+    max = 0.2,
+    recentBars = 3,
+    atrPeriod = 14,
+  }: PsarParams) {
+    const { highs, lows, closes } = candles;
+    const len = Math.min(highs.length, lows.length, closes.length);
+    if (!len || len < Math.max(5, atrPeriod) + 2) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    if (lastIndex < 1) {
+      return { ok: false as const, reason: "Dados insuficientes para confirmar no fechamento." };
+    }
+
+    const sar = padLeft(
+      len,
+      TI.PSAR.calculate({ high: highs.slice(0, len), low: lows.slice(0, len), step, max }),
+    );
+    const atr = padLeft(
+      len,
+      TI.ATR.calculate({ period: atrPeriod, high: highs, low: lows, close: closes }),
+    );
+
+    const lastSar = sar[lastIndex];
+    if (lastSar == null) {
+      return { ok: false as const, reason: "PSAR indisponível no índice atual." };
+    }
+    const price = closes[lastIndex];
+    const lastATR = atr[lastIndex] ?? undefined;
+
+    // Tendência = lado do preço em relação ao SAR
+    const side = (i: number) => {
+      const s = sar[i];
+      return s == null ? 0 : closes[i] > s ? 1 : closes[i] < s ? -1 : 0;
+    };
+    const lastSide = side(lastIndex);
+
+    let barsSinceFlip: number | null = null;
+    for (let i = lastIndex; i >= 1; i--) {
+      const prev = side(i - 1);
+      if (prev === 0) break;
+      if (side(i) !== prev) {
+        barsSinceFlip = lastIndex - i;
+        break;
+      }
+    }
+    const recentFlip = barsSinceFlip != null && barsSinceFlip <= recentBars;
+
+    const entrySignal: "long" | "short" | "none" =
+      lastSide > 0 ? "long" : lastSide < 0 ? "short" : "none";
+
+    // SAR é o trailing stop clássico: publica só o lado da tendência vigente
+    const stopLong = lastSide > 0 ? lastSar : undefined;
+    const stopShort = lastSide < 0 ? lastSar : undefined;
+
+    // Confiança: virada recente + folga do preço ao SAR em ATRs (muito colado = frágil)
+    const distATR = lastATR ? Math.abs(price - lastSar) / lastATR : 0;
+    const distFactor = Math.min(1, distATR / 3);
+    const confidence =
+      entrySignal === "none"
+        ? 0.3
+        : Math.min(1, 0.4 + 0.3 * distFactor + (recentFlip ? 0.2 : 0.05));
+
+    return {
+      ok: true as const,
+      last: { sar: lastSar, price, atr: lastATR },
+      sar,
+      barsSinceFlip,
+      recentFlip,
+      lastATR,
+      stopLong,
+      stopShort,
+      entrySignal,
+      confidence,
+      meta: { step, max, recentBars, atrPeriod, lastIndex },
+    };
+  }
+
+  static decision(
+    params: PsarParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof PSARIndicator.calculate>> {
+    const r = PSARIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "psar",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+
+    // PSAR vira muito em lateralização: qualidade máxima só na virada recente
+    const quality = r.recentFlip ? 0.95 : 0.8;
+
+    return {
+      id: "psar",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: dir !== 0 && r.recentFlip ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
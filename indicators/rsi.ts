@@ -1,4 +1,5 @@
 import * as TI from "technicalindicators";
+import { detectDivergences } from "../utils/divergence";
 import { padLeft } from "../utils/pad-left";
 import { IIndicatorDecisionMin } from "./types";
 
@@ -49,6 +50,15 @@ export type RsiParams = {
 
   /** Múltiplo do ATR p/ stop sugerido (default: 1.5) */
   atrStopMultiple?: number;
+
+  /** Detecta divergências preço × RSI por pivôs (default: true) */
+  divergence?: boolean;
+
+  /** Barras de cada lado para confirmar um pivô (default: 3) */
+  pivotStrength?: number;
+
+  /** Janela, em barras, para procurar os pivôs (default: 60) */
+  divergenceLookback?: number;
 };
 
 export class RSIIndicator {
@@ -64,6 +74,9 @@ export class RSIIndicator {
     barsSinceMode = "infinity",
     atrPeriod = 14,
     atrStopMultiple = 1.5,
+    divergence = true,
+    pivotStrength = 3,
+    divergenceLookback = 60,
   }: RsiParams) {
     const closes = candles.closes;
     const len = closes.length;
@@ -204,11 +217,29 @@ export class RSIIndicator {
     const recentCrossUp = upBarsNumber <= recentBars;
     const recentCrossDown = downBarsNumber <= recentBars;
 
+    // --- Divergências preço × RSI (pivôs em máximas/mínimas; sem elas, closes)
+    // "Ativa" = pivô mais recente ainda fresco (confirmação + recentBars)
+    const div = divergence
+      ? detectDivergences({
+          highs: candles.highs ?? closes,
+          lows: candles.lows ?? closes,
+          oscillator: rsi,
+          endIndex: lastIndex,
+          pivotStrength,
+          lookback: divergenceLookback,
+        })
+      : { bullish: null, bearish: null, latest: null };
+    const maxDivAge = pivotStrength + recentBars;
+    const bullDiv = div.bullish && div.bullish.barsAgo <= maxDivAge ? div.bullish : null;
+    const bearDiv = div.bearish && div.bearish.barsAgo <= maxDivAge ? div.bearish : null;
+    const regularBullDiv = bullDiv?.kind === "regular-bullish";
+    const regularBearDiv = bearDiv?.kind === "regular-bearish";
+
     // --- Sinal final (conservador e alinhado a prática):
-    // LONG: (recente saída de OS OU cruzou 50) E slope>0
-    // SHORT: (recente saída de OB OU cruzou 50 para baixo) E slope<0
-    const longTrigger = (recentCrossUp || crossUpMid) && slopeUp;
-    const shortTrigger = (recentCrossDown || crossDownMid) && slopeDown;
+    // LONG: (recente saída de OS OU cruzou 50 OU divergência regular de alta) E slope>0
+    // SHORT: (recente saída de OB OU cruzou 50 para baixo OU divergência regular de baixa) E slope<0
+    const longTrigger = (recentCrossUp || crossUpMid || regularBullDiv) && slopeUp;
+    const shortTrigger = (recentCrossDown || crossDownMid || regularBearDiv) && slopeDown;
 
     const entrySignal: "long" | "short" | "none" = longTrigger
       ? "long"
@@ -246,6 +277,9 @@ export class RSIIndicator {
       recentCrossUp,
       recentCrossDown,
 
+      // Divergências (ativas = recentes; latest = última encontrada na janela)
+      divergence: { bullish: bullDiv, bearish: bearDiv, latest: div.latest },
+
       // Distâncias auxiliares
       distToBuy,
       distToSell,
@@ -265,6 +299,8 @@ export class RSIIndicator {
         barsSinceMode,
         atrPeriod,
         atrStopMultiple,
+        pivotStrength,
+        divergenceLookback,
       },
     };
   }
@@ -302,7 +338,24 @@ export class RSIIndicator {
                     (r.entrySignal === "short" && r.recentCrossDown)
                       ? 0.15
                       : 0;
-                  return base + 0.35 * distFactor + 0.35 * slopeMag + recencyBoost;
+                  // divergência a favor reforça; regular contra o sinal enfraquece
+                  const div = r.divergence;
+                  const agree =
+                    r.entrySignal === "long"
+                      ? div.bullish
+                      : r.entrySignal === "short"
+                        ? div.bearish
+                        : null;
+                  const against =
+                    r.entrySignal === "long"
+                      ? div.bearish
+                      : r.entrySignal === "short"
+                        ? div.bullish
+                        : null;
+                  const divBoost =
+                    (agree ? (agree.kind.startsWith("regular") ? 0.15 : 0.08) : 0) -
+                    (against?.kind.startsWith("regular") ? 0.1 : 0);
+                  return base + 0.35 * distFactor + 0.35 * slopeMag + recencyBoost + divBoost;
                 })(),
               ),
             )
@@ -311,7 +364,9 @@ export class RSIIndicator {
           let q = 0.85;
           const multiLong = r.entrySignal === "long" && r.crossUpFromOversold;
           const multiShort = r.entrySignal === "short" && r.crossDownFromOverbought;
-          if (multiLong || multiShort) q = 1.0;
+          const divLong = r.entrySignal === "long" && r.divergence?.bullish;
+          const divShort = r.entrySignal === "short" && r.divergence?.bearish;
+          if (multiLong || multiShort || divLong || divShort) q = 1.0;
           else if (r.entrySignal !== "none") q = Math.max(q, 0.92);
           return q;
         })(),
@@ -0,0 +1,114 @@
+import * as TI from "technicalindicators";
+import { padLeft } from "../utils/pad-left.js";
+import { evaluateKD } from "./stochastic.js";
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  closes: number[];
+};
+
+export type StochRsiParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  rsiPeriod?: number; // default 14
+  stochasticPeriod?: number; // default 14
+  kPeriod?: number; // suavização do %K (default 3)
+  dPeriod?: number; // suavização do %D (default 3)
+  overbought?: number; // default 80
+  oversold?: number; // default 20
+  recentBars?: number; // janela p/ cruzamento recente (default 3)
+};
+
+export class StochRSIIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    rsiPeriod = 14,
+    stochasticPeriod = 14,
+    kPeriod = 3,
+    dPeriod = 3,
+    overbought = 80,
+    oversold = 20,
+    recentBars = 3,
+  }: StochRsiParams) {
+    const { closes } = candles;
+    const len = closes.length;
+    if (!len || len < rsiPeriod + stochasticPeriod + kPeriod + dPeriod + 2) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    if (lastIndex < 1) {
+      return { ok: false as const, reason: "Dados insuficientes para confirmar no fechamento." };
+    }
+
+    const raw = TI.StochasticRSI.calculate({
+      values: closes,
+      rsiPeriod,
+      stochasticPeriod,
+      kPeriod,
+      dPeriod,
+    });
+    const k = padLeft(
+      len,
+      raw.map((r) => (Number.isFinite(r.k) ? r.k : null)),
+    );
+    const d = padLeft(
+      len,
+      raw.map((r) => (Number.isFinite(r.d) ? r.d : null)),
+    );
+
+    const kd = evaluateKD(k, d, lastIndex, { overbought, oversold, recentBars });
+    if (!kd) {
+      return { ok: false as const, reason: "%K/%D indisponíveis." };
+    }
+
+    return {
+      ok: true as const,
+      k,
+      d,
+      ...kd,
+      meta: {
+        rsiPeriod,
+        stochasticPeriod,
+        kPeriod,
+        dPeriod,
+        overbought,
+        oversold,
+        recentBars,
+        lastIndex,
+      },
+    };
+  }
+
+  static decision(
+    params: StochRsiParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof StochRSIIndicator.calculate>> {
+    const r = StochRSIIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "stochrsi",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+
+    // StochRSI é mais nervoso que o Stochastic: qualidade um degrau abaixo
+    let quality = 0.8;
+    if (dir !== 0) quality = r.bothInZone ? 0.95 : 0.88;
+
+    return {
+      id: "stochrsi",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: dir !== 0 ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import * as TI from "technicalindicators";
+import { padLeft } from "../utils/pad-left.js";
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  closes: number[];
+  highs: number[];
+  lows: number[];
+};
+
+export type StochasticParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  period?: number; // janela do %K (default 14)
+  signalPeriod?: number; // suavização do %D (default 3)
+  overbought?: number; // zona de sobrecompra (default 80)
+  oversold?: number; // zona de sobrevenda (default 20)
+  recentBars?: number; // janela p/ cruzamento recente de %K/%D (default 3)
+};
+
+/**
+ * Leitura comum a Stochastic e StochRSI: último cruzamento %K/%D dentro da janela,
+ * se ocorreu na zona de sobrevenda/sobrecompra e o sinal resultante.
+ */
+export function evaluateKD(
+  k: Array<number | null>,
+  d: Array<number | null>,
+  lastIndex: number,
+  {
+    overbought,
+    oversold,
+    recentBars,
+  }: { overbought: number; oversold: number; recentBars: number },
+) {
+  const lastK = k[lastIndex];
+  const lastD = d[lastIndex];
+  if (lastK == null || lastD == null) return null;
+
+  let barsSinceBullCross: number | null = null;
+  let barsSinceBearCross: number | null = null;
+  let bullCrossInZone = false; // cruzou p/ cima com %K em sobrevenda
+  let bearCrossInZone = false; // cruzou p/ baixo com %K em sobrecompra
+  let bullBothInZone = false; // %K e %D em sobrevenda no cruzamento
+  let bearBothInZone = false;
+  for (let i = lastIndex; i >= Math.max(1, lastIndex - 50); i--) {
+    const ck = k[i],
+      cd = d[i],
+      pk = k[i - 1],
+      pd = d[i - 1];
+    if (ck == null || cd == null || pk == null || pd == null) break;
+    if (barsSinceBullCross == null && pk <= pd && ck > cd) {
+      barsSinceBullCross = lastIndex - i;
+      bullCrossInZone = Math.min(pk, ck) <= oversold;
+      bullBothInZone = bullCrossInZone && Math.min(pd, cd) <= oversold;
+    }
+    if (barsSinceBearCross == null && pk >= pd && ck < cd) {
+      barsSinceBearCross = lastIndex - i;
+      bearCrossInZone = Math.max(pk, ck) >= overbought;
+      bearBothInZone = bearCrossInZone && Math.max(pd, cd) >= overbought;
+    }
+    if (barsSinceBullCross != null && barsSinceBearCross != null) break;
+  }
+
+  const recentBull = barsSinceBullCross != null && barsSinceBullCross <= recentBars;
+  const recentBear = barsSinceBearCross != null && barsSinceBearCross <= recentBars;
+
+  // Sinal: cruzamento recente originado na zona e %K ainda do lado do cruzamento
+  let entrySignal: "long" | "short" | "none" = "none";
+  if (recentBull && bullCrossInZone && lastK > lastD) entrySignal = "long";
+  else if (recentBear && bearCrossInZone && lastK < lastD) entrySignal = "short";
+
+  // Confiança: profundidade da zona no cruzamento, abertura %K-%D e recência
+  const zoneDepth =
+    entrySignal === "long"
+      ? Math.min(1, Math.max(0, oversold - Math.min(lastK, lastD) + 10) / 30)
+      : entrySignal === "short"
+        ? Math.min(1, Math.max(0, Math.max(lastK, lastD) - overbought + 10) / 30)
+        : 0;
+  const spreadFactor = Math.min(1, Math.abs(lastK - lastD) / 15);
+  const bars = entrySignal === "long" ? barsSinceBullCross : barsSinceBearCross;
+  const recencyBoost = bars === 0 ? 0.15 : bars != null && bars <= 1 ? 0.08 : 0;
+  const base = entrySignal !== "none" ? 0.5 : 0.3;
+  const confidence = Math.min(1, base + 0.2 * zoneDepth + 0.2 * spreadFactor + recencyBoost);
+
+  return {
+    last: { k: lastK, d: lastD },
+    overbought: lastK >= overbought,
+    oversold: lastK <= oversold,
+    barsSinceBullCross,
+    barsSinceBearCross,
+    recentBull,
+    recentBear,
+    bullCrossInZone,
+    bearCrossInZone,
+    bothInZone: entrySignal === "long" ? bullBothInZone : entrySignal === "short" && bearBothInZone,
+    entrySignal,
+    confidence,
+  };
+}
+
+export class StochasticIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    period = 14,
+    signalPeriod = 3,
+    overbought = 80,
+    oversold = 20,
+    recentBars = 3,
+  }: StochasticParams) {
+    const { highs, lows, closes } = candles;
+    const len = Math.min(highs.length, lows.length, closes.length);
+    if (!len || len < period + signalPeriod + 2) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    if (lastIndex < 1) {
+      return { ok: false as const, reason: "Dados insuficientes para confirmar no fechamento." };
+    }
+
+    const raw = TI.Stochastic.calculate({
+      high: highs.slice(0, len),
+      low: lows.slice(0, len),
+      close: closes.slice(0, len),
+      period,
+      signalPeriod,
+    });
+    const k = padLeft(
+      len,
+      raw.map((r) => (Number.isFinite(r.k) ? r.k : null)),
+    );
+    const d = padLeft(
+      len,
+      raw.map((r) => (Number.isFinite(r.d) ? r.d : null)),
+    );
+
+    const kd = evaluateKD(k, d, lastIndex, { overbought, oversold, recentBars });
+    if (!kd) {
+      return { ok: false as const, reason: "%K/%D indisponíveis." };
+    }
+
+    return {
+      ok: true as const,
+      k,
+      d,
+      ...kd,
+      meta: { period, signalPeriod, overbought, oversold, recentBars, lastIndex },
+    };
+  }
+
+  static decision(
+    params: StochasticParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof StochasticIndicator.calculate>> {
+    const r = StochasticIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "stochastic",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+
+    // Qualidade: cruzamento com %K e %D ambos dentro da zona é o setup clássico
+    let quality = 0.85;
+    if (dir !== 0) quality = r.bothInZone ? 1.0 : 0.92;
+
+    return {
+      id: "stochastic",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: dir !== 0 ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import * as TI from "technicalindicators";
+import { padLeft } from "../utils/pad-left.js";
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  closes: number[];
+  highs: number[];
+  lows: number[];
+};
+
+export type SupertrendParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  atrPeriod?: number; // default 10
+  multiplier?: number; // múltiplo do ATR nas bandas (default 3)
+  recentBars?: number; // janela p/ virada recente de tendência (default 3)
+};
+
+export class SupertrendIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    atrPeriod = 10,
+    multiplier = 3,
+    recentBars = 3,
+  }: SupertrendParams) {
+    const { highs, lows, closes } = candles;
+    const len = Math.min(highs.length, lows.length, closes.length);
+    if (!len || len < atrPeriod + 3) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    if (lastIndex < 1) {
+      return { ok: false as const, reason: "Dados insuficientes para confirmar no fechamento." };
+    }
+
+    const atr = padLeft(
+      len,
+      TI.ATR.calculate({ period: atrPeriod, high: highs, low: lows, close: closes }),
+    );
+
+    // Bandas finais: a inferior só sobe e a superior só desce enquanto a tendência dura
+    const upper: Array<number | null> = Array(len).fill(null);
+    const lower: Array<number | null> = Array(len).fill(null);
+    const trend: Array<1 | -1 | null> = Array(len).fill(null);
+    for (let i = 0; i < len; i++) {
+      const a = atr[i];
+      if (a == null) continue;
+      const hl2 = (highs[i] + lows[i]) / 2;
+      const basicUp = hl2 + multiplier * a;
+      const basicLow = hl2 - multiplier * a;
+      const pu = upper[i - 1];
+      const pl = lower[i - 1];
+      const pt = trend[i - 1];
+      if (pu == null || pl == null || pt == null) {
+        upper[i] = basicUp;
+        lower[i] = basicLow;
+        trend[i] = closes[i] >= hl2 ? 1 : -1;
+        continue;
+      }
+      upper[i] = basicUp < pu || closes[i - 1] > pu ? basicUp : pu;
+      lower[i] = basicLow > pl || closes[i - 1] < pl ? basicLow : pl;
+      trend[i] = pt === -1 && closes[i] > pu ? 1 : pt === 1 && closes[i] < pl ? -1 : pt;
+    }
+    const line = trend.map((t, i) => (t === 1 ? lower[i] : t === -1 ? upper[i] : null));
+
+    const lastTrend = trend[lastIndex];
+    const lastLine = line[lastIndex];
+    const lastATR = atr[lastIndex] ?? undefined;
+    if (lastTrend == null || lastLine == null) {
+      return { ok: false as const, reason: "Supertrend indisponível no índice atual." };
+    }
+
+    // Barras desde a última virada
+    let barsSinceFlip: number | null = null;
+    for (let i = lastIndex; i >= 1; i--) {
+      if (trend[i - 1] == null) break;
+      if (trend[i] !== trend[i - 1]) {
+        barsSinceFlip = lastIndex - i;
+        break;
+      }
+    }
+    const recentFlip = barsSinceFlip != null && barsSinceFlip <= recentBars;
+
+    const price = closes[lastIndex];
+    const entrySignal: "long" | "short" | "none" = lastTrend === 1 ? "long" : "short";
+
+    // Stop de acompanhamento = a própria linha do Supertrend (só do lado ativo)
+    const stopLong = lastTrend === 1 ? lastLine : undefined;
+    const stopShort = lastTrend === -1 ? lastLine : undefined;
+
+    // Confiança: virada recente pesa mais; longe da linha (em ATRs) = tendência folgada
+    const distATR = lastATR ? Math.abs(price - lastLine) / lastATR : 0;
+    const distFactor = Math.min(1, distATR / (multiplier * 1.5));
+    const ageFactor =
+      barsSinceFlip == null ? 0.5 : Math.max(0, 1 - barsSinceFlip / Math.max(20, recentBars));
+    const confidence = Math.min(
+      1,
+      0.4 + 0.25 * distFactor + 0.2 * ageFactor + (recentFlip ? 0.15 : 0),
+    );
+
+    return {
+      ok: true as const,
+      last: { supertrend: lastLine, trend: lastTrend, price, atr: lastATR },
+      supertrend: line,
+      trend,
+      upper,
+      lower,
+      barsSinceFlip,
+      recentFlip,
+      lastATR,
+      stopLong,
+      stopShort,
+      entrySignal,
+      confidence,
+      meta: { atrPeriod, multiplier, recentBars, lastIndex },
+    };
+  }
+
+  static decision(
+    params: SupertrendParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof SupertrendIndicator.calculate>> {
+    const r = SupertrendIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "supertrend",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+
+    // Gatilho só na virada recente; fora dela o voto é de viés (qualidade menor)
+    const quality = r.recentFlip ? 1.0 : 0.85;
+
+    return {
+      id: "supertrend",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: r.recentFlip ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
@@ -0,0 +1,211 @@
+import * as TI from "technicalindicators";
+import { padLeft } from "../utils/pad-left.js";
+import { findPivots } from "../utils/pivots.js";
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  closes: number[];
+  highs: number[];
+  lows: number[];
+  opens?: number[];
+};
+
+export type SupportResistanceParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  pivotStrength?: number; // barras de cada lado do pivô (fractal) (default 3)
+  lookback?: number; // barras analisadas (default 200)
+  atrPeriod?: number; // default 14
+  toleranceATR?: number; // largura máx. de agrupamento em ATRs (default 0.5)
+  minTouches?: number; // toques p/ considerar o nível relevante (default 2)
+  stopBufferATR?: number; // folga do stop além da zona, em ATRs (default 0.25)
+};
+
+export type SRZone = {
+  price: number; // média dos pivôs agrupados
+  low: number; // borda inferior da zona
+  high: number; // borda superior da zona
+  touches: number; // nº de pivôs (topos + fundos) na zona
+  lastTouch: number; // índice do pivô mais recente
+};
+
+// Agrupa preços ordenados: entra na zona enquanto distar até `tol` da média corrente
+function clusterLevels(points: Array<{ index: number; value: number }>, tol: number): SRZone[] {
+  const sorted = points.slice().sort((a, b) => a.value - b.value);
+  const zones: SRZone[] = [];
+  let cur: Array<{ index: number; value: number }> = [];
+  const flush = () => {
+    if (!cur.length) return;
+    const values = cur.map((p) => p.value);
+    zones.push({
+      price: values.reduce((a, b) => a + b, 0) / values.length,
+      low: Math.min(...values),
+      high: Math.max(...values),
+      touches: cur.length,
+      lastTouch: Math.max(...cur.map((p) => p.index)),
+    });
+    cur = [];
+  };
+  for (const p of sorted) {
+    const mean = cur.length ? cur.reduce((a, q) => a + q.value, 0) / cur.length : p.value;
+    if (cur.length && p.value - mean > tol) flush();
+    cur.push(p);
+  }
+  flush();
+  return zones;
+}
+
+export class SupportResistanceIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    pivotStrength = 3,
+    lookback = 200,
+    atrPeriod = 14,
+    toleranceATR = 0.5,
+    minTouches = 2,
+    stopBufferATR = 0.25,
+  }: SupportResistanceParams) {
+    const { highs, lows, closes, opens } = candles;
+    const len = Math.min(highs.length, lows.length, closes.length);
+    if (!len || len < Math.max(atrPeriod, pivotStrength * 2) + 2) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    if (lastIndex < 1) {
+      return { ok: false as const, reason: "Dados insuficientes para confirmar no fechamento." };
+    }
+
+    const atr = padLeft(
+      len,
+      TI.ATR.calculate({ period: atrPeriod, high: highs, low: lows, close: closes }),
+    );
+    const lastATR = atr[lastIndex];
+    if (lastATR == null || lastATR <= 0) {
+      return { ok: false as const, reason: "ATR indisponível no índice atual." };
+    }
+
+    // Pivôs confirmados até a barra de referência, dentro da janela
+    const from = Math.max(0, lastIndex - lookback);
+    const { highs: ph } = findPivots(highs, pivotStrength, pivotStrength, lastIndex);
+    const { lows: pl } = findPivots(lows, pivotStrength, pivotStrength, lastIndex);
+    const pivots = [...ph, ...pl].filter((p) => p.index >= from);
+    const zones = clusterLevels(pivots, toleranceATR * lastATR);
+
+    const price = closes[lastIndex];
+    const relevant = zones.filter((z) => z.touches >= minTouches);
+    const pool = relevant.length ? relevant : zones;
+    const supports = pool.filter((z) => z.price < price).sort((a, b) => b.price - a.price);
+    const resistances = pool.filter((z) => z.price > price).sort((a, b) => a.price - b.price);
+    const support = supports[0] ?? null;
+    const resistance = resistances[0] ?? null;
+
+    // Stops estruturais além da zona; alvos na borda da zona oposta
+    const buffer = stopBufferATR * lastATR;
+    const stopLong = support ? support.low - buffer : undefined;
+    const stopShort = resistance ? resistance.high + buffer : undefined;
+    const targetLong = resistance?.low;
+    const targetShort = support?.high;
+
+    // Gatilhos: repique no suporte / rejeição na resistência / rompimento de zona
+    const open = opens?.[lastIndex] ?? closes[lastIndex - 1];
+    const prevClose = closes[lastIndex - 1];
+    const tol = toleranceATR * lastATR;
+    const bounce =
+      !!support && lows[lastIndex] <= support.high + tol && price > support.high && price > open;
+    const rejection =
+      !!resistance &&
+      highs[lastIndex] >= resistance.low - tol &&
+      price < resistance.low &&
+      price < open;
+    // rompimento: zona que estava acima do close anterior e agora ficou abaixo (e vice-versa)
+    const brokenUp =
+      pool.find((z) => prevClose <= z.high && price > z.high + 0.1 * lastATR) ?? null;
+    const brokenDown =
+      pool.find((z) => prevClose >= z.low && price < z.low - 0.1 * lastATR) ?? null;
+
+    let entrySignal: "long" | "short" | "none" = "none";
+    if (brokenUp || bounce) entrySignal = "long";
+    else if (brokenDown || rejection) entrySignal = "short";
+
+    // Confiança: nº de toques da zona usada + espaço até o alvo em relação ao risco
+    const zone =
+      entrySignal === "long"
+        ? (brokenUp ?? support)
+        : entrySignal === "short"
+          ? (brokenDown ?? resistance)
+          : null;
+    const touchFactor = zone ? Math.min(1, zone.touches / 4) : 0;
+    const risk =
+      entrySignal === "long" && stopLong != null
+        ? price - stopLong
+        : entrySignal === "short" && stopShort != null
+          ? stopShort - price
+          : 0;
+    const reward =
+      entrySignal === "long" && targetLong != null
+        ? targetLong - price
+        : entrySignal === "short" && targetShort != null
+          ? price - targetShort
+          : 0;
+    const rr = risk > 0 ? reward / risk : 0;
+    const rrFactor = Math.min(1, rr / 2);
+    const base = entrySignal !== "none" ? 0.45 : 0.3;
+    const confidence = Math.min(1, base + 0.3 * touchFactor + 0.25 * rrFactor);
+
+    return {
+      ok: true as const,
+      last: { price, atr: lastATR },
+      zones,
+      support,
+      resistance,
+      bounce,
+      rejection,
+      brokenUp,
+      brokenDown,
+      rr,
+      lastATR,
+      stopLong,
+      stopShort,
+      targetLong,
+      targetShort,
+      entrySignal,
+      confidence,
+      meta: { pivotStrength, lookback, atrPeriod, toleranceATR, minTouches, lastIndex },
+    };
+  }
+
+  static decision(
+    params: SupportResistanceParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof SupportResistanceIndicator.calculate>> {
+    const r = SupportResistanceIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "sr",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+
+    // Qualidade: zona testada várias vezes e relação retorno/risco >= 2
+    let quality = 0.85;
+    if (dir !== 0 && r.rr >= 1.5) quality = 0.92;
+    const zoneTouches = (dir > 0 ? r.support : r.resistance)?.touches ?? 0;
+    if (dir !== 0 && r.rr >= 2 && zoneTouches >= 3) quality = 1.0;
+
+    return {
+      id: "sr",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: dir !== 0 ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
@@ -22,4 +22,5 @@ export type Candles = {
   closes?: number[];
   opens?: number[];
   volumes?: number[];
+  times?: number[]; // closeTime (ms) de cada barra, p/ ancoragem por sessão
 };
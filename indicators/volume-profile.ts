@@ -0,0 +1,255 @@
+import { sessionKey, type TradingSession } from "../utils/session.js";
+import { IIndicatorDecisionMin } from "./types.js";
+
+export type Candles = {
+  closes: number[];
+  highs: number[];
+  lows: number[];
+  volumes: number[];
+  times?: number[]; // closeTime (ms); exigido p/ range por sessão ou por timestamps
+};
+
+// "window": últimas `lookback` barras; "session": sessão corrente (em formação);
+// { startTime, endTime? }: intervalo fixo por timestamp
+export type ProfileRange = "window" | "session" | { startTime: number; endTime?: number };
+
+export type VolumeProfileParams = {
+  candles: Candles;
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  range?: ProfileRange; // default "window"
+  session?: TradingSession; // p/ range "session" (default "utc-day")
+  lookback?: number; // barras no range "window" (default 100)
+  bins?: number; // faixas de preço (default 24)
+  valueAreaPct?: number; // fração do volume na value area (default 0.7)
+  minBars?: number; // mínimo de barras no range (default 10)
+};
+
+export type ProfileBin = { low: number; high: number; mid: number; volume: number };
+
+export type VolumeProfile = {
+  bins: ProfileBin[];
+  total: number;
+  poc: number; // preço (meio da faixa) com mais volume
+  vah: number; // topo da value area
+  val: number; // fundo da value area
+  hvn: number[]; // nós de alto volume (picos locais)
+  lvn: number[]; // nós de baixo volume (vales locais)
+};
+
+/**
+ * Distribui o volume de cada barra entre as faixas de preço que seu range (high-low) cobre,
+ * proporcional à sobreposição. Barras com range zero caem inteiras na faixa do preço.
+ */
+export function buildVolumeProfile(
+  candles: Pick<Candles, "highs" | "lows" | "volumes">,
+  start: number,
+  end: number,
+  { bins = 24, valueAreaPct = 0.7 }: { bins?: number; valueAreaPct?: number } = {},
+): VolumeProfile | null {
+  const { highs, lows, volumes } = candles;
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let i = start; i <= end; i++) {
+    if (lows[i] < lo) lo = lows[i];
+    if (highs[i] > hi) hi = highs[i];
+  }
+  if (!Number.isFinite(lo) || !Number.isFinite(hi) || hi <= lo) return null;
+
+  const step = (hi - lo) / bins;
+  const out: ProfileBin[] = Array.from({ length: bins }, (_, b) => ({
+    low: lo + b * step,
+    high: lo + (b + 1) * step,
+    mid: lo + (b + 0.5) * step,
+    volume: 0,
+  }));
+  const binOf = (p: number) => Math.min(bins - 1, Math.max(0, Math.floor((p - lo) / step)));
+  let total = 0;
+  for (let i = start; i <= end; i++) {
+    const v = Math.max(0, volumes[i] ?? 0);
+    if (!v) continue;
+    total += v;
+    const range = highs[i] - lows[i];
+    if (range <= 0) {
+      out[binOf(highs[i])].volume += v;
+      continue;
+    }
+    for (let b = binOf(lows[i]); b <= binOf(highs[i]); b++) {
+      const overlap = Math.min(highs[i], out[b].high) - Math.max(lows[i], out[b].low);
+      if (overlap > 0) out[b].volume += (v * overlap) / range;
+    }
+  }
+  if (total <= 0) return null;
+
+  // POC e value area: expande a partir do POC pelo vizinho de maior volume
+  let pocIdx = 0;
+  for (let b = 1; b < bins; b++) if (out[b].volume > out[pocIdx].volume) pocIdx = b;
+  let lowIdx = pocIdx;
+  let highIdx = pocIdx;
+  let acc = out[pocIdx].volume;
+  while (acc < valueAreaPct * total && (lowIdx > 0 || highIdx < bins - 1)) {
+    const below = lowIdx > 0 ? out[lowIdx - 1].volume : -1;
+    const above = highIdx < bins - 1 ? out[highIdx + 1].volume : -1;
+    if (above >= below) acc += out[++highIdx].volume;
+    else acc += out[--lowIdx].volume;
+  }
+
+  // Nós: picos/vales locais relativos à média por faixa
+  const mean = total / bins;
+  const hvn: number[] = [];
+  const lvn: number[] = [];
+  for (let b = 1; b < bins - 1; b++) {
+    const v = out[b].volume;
+    if (v > out[b - 1].volume && v >= out[b + 1].volume && v >= 1.2 * mean) hvn.push(out[b].mid);
+    if (v < out[b - 1].volume && v <= out[b + 1].volume && v <= 0.6 * mean) lvn.push(out[b].mid);
+  }
+
+  return {
+    bins: out,
+    total,
+    poc: out[pocIdx].mid,
+    vah: out[highIdx].high,
+    val: out[lowIdx].low,
+    hvn,
+    lvn,
+  };
+}
+
+export class VolumeProfileIndicator {
+  static calculate({
+    candles,
+    confirmOnClose = true,
+    range = "window",
+    session = "utc-day",
+    lookback = 100,
+    bins = 24,
+    valueAreaPct = 0.7,
+    minBars = 10,
+  }: VolumeProfileParams) {
+    const { highs, lows, closes, volumes, times } = candles;
+    const len = Math.min(highs.length, lows.length, closes.length, volumes.length);
+    if (!len || len < minBars + 2) {
+      return { ok: false as const, reason: "Dados insuficientes." };
+    }
+
+    const lastIndex = confirmOnClose ? len - 2 : len - 1;
+    if (lastIndex < 1) {
+      return { ok: false as const, reason: "Dados insuficientes para confirmar no fechamento." };
+    }
+    if (range !== "window" && (times?.length ?? 0) < len) {
+      return { ok: false as const, reason: "Range por sessão/timestamp exige candles.times." };
+    }
+
+    // Range do perfil (o perfil inclui a barra de referência)
+    let start = Math.max(0, lastIndex - lookback + 1);
+    let end = lastIndex;
+    if (range === "session") {
+      const key = sessionKey(times![lastIndex], session);
+      start = lastIndex;
+      while (start > 0 && sessionKey(times![start - 1], session) === key) start--;
+    } else if (typeof range === "object") {
+      start = times!.findIndex((t) => t >= range.startTime);
+      if (start < 0 || start > lastIndex) {
+        return { ok: false as const, reason: "Range fora dos candles disponíveis." };
+      }
+      if (range.endTime != null) {
+        while (end > start && times![end] > range.endTime) end--;
+      }
+    }
+    if (end - start + 1 < minBars) {
+      return { ok: false as const, reason: "Poucas barras no range do perfil." };
+    }
+
+    const profile = buildVolumeProfile(candles, start, end, { bins, valueAreaPct });
+    if (!profile) {
+      return { ok: false as const, reason: "Perfil de volume vazio." };
+    }
+    const { poc, vah, val, hvn, lvn } = profile;
+    const binSize = profile.bins[0].high - profile.bins[0].low;
+
+    const price = closes[lastIndex];
+    const prevClose = closes[lastIndex - 1];
+    const vaWidth = Math.max(binSize, vah - val);
+    const position: "above-va" | "below-va" | "inside-va" =
+      price > vah ? "above-va" : price < val ? "below-va" : "inside-va";
+
+    // Aceitação fora da value area (rompimento) ou rejeição na borda (volta ao POC)
+    const breakoutUp = prevClose <= vah && price > vah;
+    const breakoutDown = prevClose >= val && price < val;
+    const nearVal = position === "inside-va" && price - val <= 0.15 * vaWidth;
+    const nearVah = position === "inside-va" && vah - price <= 0.15 * vaWidth;
+    const reversionLong = nearVal && price > prevClose;
+    const reversionShort = nearVah && price < prevClose;
+
+    let entrySignal: "long" | "short" | "none" = "none";
+    if (breakoutUp || reversionLong) entrySignal = "long";
+    else if (breakoutDown || reversionShort) entrySignal = "short";
+
+    // Níveis estruturais: stop abaixo/acima do nível relevante mais próximo; alvo no próximo
+    const levels = [val, poc, vah, ...hvn].sort((a, b) => a - b);
+    const below = levels.filter((l) => l < price - 0.25 * binSize);
+    const above = levels.filter((l) => l > price + 0.25 * binSize);
+    const stopLong = below.length ? below[below.length - 1] - binSize : undefined;
+    const stopShort = above.length ? above[0] + binSize : undefined;
+    const targetLong = above[0];
+    const targetShort = below.length ? below[below.length - 1] : undefined;
+
+    // Confiança: rompimento (aceitação) > reversão; LVN no caminho ajuda o rompimento
+    const lvnAhead =
+      entrySignal === "long"
+        ? lvn.some((l) => l > price)
+        : entrySignal === "short" && lvn.some((l) => l < price);
+    const base = breakoutUp || breakoutDown ? 0.55 : entrySignal !== "none" ? 0.45 : 0.3;
+    const distFactor = Math.min(1, Math.abs(price - poc) / vaWidth);
+    const confidence = Math.min(1, base + 0.25 * distFactor + (lvnAhead ? 0.1 : 0));
+
+    return {
+      ok: true as const,
+      profile,
+      last: { price, poc, vah, val, position },
+      range: { start, end, mode: typeof range === "object" ? "fixed" : range },
+      breakoutUp,
+      breakoutDown,
+      reversionLong,
+      reversionShort,
+      stopLong,
+      stopShort,
+      targetLong,
+      targetShort,
+      entrySignal,
+      confidence,
+      meta: { bins, valueAreaPct, lookback, session, lastIndex },
+    };
+  }
+
+  static decision(
+    params: VolumeProfileParams,
+  ): IIndicatorDecisionMin<ReturnType<typeof VolumeProfileIndicator.calculate>> {
+    const r = VolumeProfileIndicator.calculate(params);
+    if (!r.ok) {
+      return {
+        id: "vprofile",
+        direction: "none",
+        entry: "no-trigger",
+        score: { directional: 0, confidence: 0, quality: 0.5 },
+        health: { isValid: false },
+        data: r,
+      };
+    }
+
+    const dir = r.entrySignal === "long" ? 1 : r.entrySignal === "short" ? -1 : 0;
+
+    // Qualidade: rompimento da value area é o setup mais limpo; reversão na borda, um pouco menos
+    let quality = 0.85;
+    if ((dir > 0 && r.breakoutUp) || (dir < 0 && r.breakoutDown)) quality = 0.95;
+    else if (dir !== 0) quality = 0.9;
+
+    return {
+      id: "vprofile",
+      direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
+      entry: dir !== 0 ? "triggered" : "no-trigger",
+      score: { directional: dir, confidence: r.confidence, quality },
+      health: { isValid: true },
+      data: r,
+    };
+  }
+}
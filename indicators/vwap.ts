@@ -1,9 +1,18 @@
 import { padLeft } from "../utils/pad-left.js";
+import { SESSION_MS, sessionKey, type TradingSession } from "../utils/session.js";
 import { Candles, IIndicatorDecisionMin } from "./types.js";
 
+export type VwapAnchor = "window" | "session" | number;
+export type VwapSession = TradingSession;
+
 export type VwapParams = {
   candles: Candles;
   confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  // "session": reinicia a cada sessão (default com candles.times e barras intradiárias)
+  // "window": acumula desde a 1ª barra recebida (default sem times ou com barras >= 1 sessão)
+  // number: timestamp (ms) da âncora (ex.: último swing/evento)
+  anchor?: VwapAnchor;
+  session?: VwapSession; // "utc-day" p/ cripto (default), "b3" p/ pregão (UTC-3)
   thresholdPct?: number; // distância percentual p/ compra/venda (default 1%)
   recentBars?: number; // janela p/ checar toques recentes (default 3)
   slopeWindow?: number; // janela p/ slope da VWAP (default 3)
@@ -28,6 +37,18 @@ function rollingStd(values: Array<number | null>, window: number, endIdx: number
   return var_ > 0 ? Math.sqrt(var_) : 0;
 }
 
+// passo típico entre barras (mediana dos intervalos de closeTime)
+function medianStep(times: number[]): number | null {
+  const diffs: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const d = times[i] - times[i - 1];
+    if (d > 0) diffs.push(d);
+  }
+  if (!diffs.length) return null;
+  diffs.sort((a, b) => a - b);
+  return diffs[Math.floor(diffs.length / 2)];
+}
+
 export class VWAPIndicator {
   static calculate({
     candles,
@@ -35,8 +56,10 @@ export class VWAPIndicator {
     thresholdPct = 1,
     recentBars = 3,
     slopeWindow = 3,
+    anchor,
+    session = "utc-day",
   }: VwapParams) {
-    const { highs, lows, closes = [], volumes = [] } = candles;
+    const { highs, lows, closes = [], volumes = [], times } = candles;
     const len = Math.min(highs.length, lows.length, closes.length, volumes.length);
     if (!len || len < Math.max(5, slopeWindow) + 1) {
       return { ok: false as const, reason: "Dados insuficientes." };
@@ -53,26 +76,72 @@ export class VWAPIndicator {
       tp[i] = (highs[i] + lows[i] + closes[i]) / 3;
     }
 
-    // VWAP acumulado: sum(TP*Vol) / sum(Vol), protegendo contra vol=0
-    const vwapRaw: number[] = Array(len).fill(0);
+    // em 1d+ cada barra é a própria sessão: VWAP de sessão viraria o TP da barra (sem informação)
+    const step = times?.length ? medianStep(times) : null;
+    const mode: VwapAnchor = anchor ?? (step != null && step < SESSION_MS ? "session" : "window");
+    if (mode !== "window" && (times?.length ?? 0) < len) {
+      return { ok: false as const, reason: "Ancoragem exige candles.times." };
+    }
+
+    // VWAP acumulado: sum(TP*Vol) / sum(Vol), protegendo contra vol=0.
+    // Reinicia na âncora (início de sessão ou timestamp); antes de uma âncora fixa fica null.
+    // Bandas: desvio padrão ponderado por volume do TP em torno do VWAP.
+    const vwapRaw: Array<number | null> = Array(len).fill(null);
+    const sigma: Array<number | null> = Array(len).fill(null);
+    const anchorIndex: number[] = Array(len).fill(-1); // barra onde começou o acumulado
     let cumPV = 0;
+    let cumPV2 = 0;
     let cumV = 0;
+    let start = -1;
     for (let i = 0; i < len; i++) {
+      if (typeof mode === "number") {
+        if (times![i] < mode) continue;
+        if (start < 0) start = i;
+      } else if (
+        start < 0 ||
+        (mode === "session" &&
+          sessionKey(times![i], session) !== sessionKey(times![i - 1], session))
+      ) {
+        start = i;
+        cumPV = cumPV2 = cumV = 0;
+      }
+      anchorIndex[i] = start;
+
       const vol = Math.max(0, volumes[i] ?? 0);
       const wtp = tp[i];
       cumPV += wtp * vol;
+      cumPV2 += wtp * wtp * vol;
       cumV += vol;
-      vwapRaw[i] = cumV > 0 ? cumPV / cumV : i > 0 ? vwapRaw[i - 1] : wtp;
+      const prev = i > start ? vwapRaw[i - 1] : null;
+      const v = cumV > 0 ? cumPV / cumV : (prev ?? wtp);
+      vwapRaw[i] = v;
+      sigma[i] = cumV > 0 ? Math.sqrt(Math.max(0, cumPV2 / cumV - v * v)) : 0;
     }
     const vwap = padLeft(len, vwapRaw);
+    const band = (k: number) =>
+      vwapRaw.map((v, i) => (v != null && sigma[i] != null ? v + k * sigma[i]! : null));
+    const bands = {
+      upper1: band(1),
+      upper2: band(2),
+      upper3: band(3),
+      lower1: band(-1),
+      lower2: band(-2),
+      lower3: band(-3),
+    };
 
     // Medidas no candle de referência
     const lClose = closes[lastIndex];
     const lVWAP = vwap[lastIndex] as number | null;
 
-    // Slope da VWAP (percentual por barra) usando janela fixa
-    const pVWAP = vwap[lastIndex - slopeWindow] as number | null;
-    const slopeAbs = lVWAP != null && pVWAP != null ? (lVWAP - pVWAP) / slopeWindow : 0;
+    if (lVWAP == null) {
+      return { ok: false as const, reason: "Âncora posterior à barra de referência." };
+    }
+
+    // Slope da VWAP (percentual por barra); não atravessa o reinício da âncora
+    const slopeFrom = Math.max(lastIndex - slopeWindow, anchorIndex[lastIndex]);
+    const slopeSpan = lastIndex - slopeFrom;
+    const pVWAP = vwap[slopeFrom] as number | null;
+    const slopeAbs = pVWAP != null && slopeSpan > 0 ? (lVWAP - pVWAP) / slopeSpan : 0;
     const slopePct = lVWAP ? (slopeAbs / lVWAP) * 100 : 0;
 
     // Distância percentual do preço ao VWAP
@@ -89,6 +158,12 @@ export class VWAPIndicator {
     const lastDev = devSeries[lastIndex] != null ? (devSeries[lastIndex] as number) : null;
     const zScore = devStdev && devStdev > 0 && lastDev != null ? lastDev / devStdev : 0;
 
+    // Posição do preço em desvios das bandas (±1/2/3σ)
+    const lSigma = sigma[lastIndex] ?? 0;
+    const sigmaPos = lSigma > 0 ? (lClose - lVWAP) / lSigma : 0;
+    const extendedUp = sigmaPos >= 3; // esticado demais p/ comprar
+    const extendedDown = sigmaPos <= -3; // esticado demais p/ vender
+
     // Toques/rompimentos recentes em relação ao limiar
     const threshold = Math.max(0, thresholdPct);
     let barsSinceAbove: number | null = null;
@@ -105,30 +180,38 @@ export class VWAPIndicator {
     const recentAbove = barsSinceAbove != null && barsSinceAbove <= recentBars;
     const recentBelow = barsSinceBelow != null && barsSinceBelow <= recentBars;
 
-    // Cruzamento direto no último passo (sem threshold) — reforço
+    // Cruzamento direto no último passo (sem threshold) — reforço; ignora o reinício da âncora
     const prevClose = closes[lastIndex - 1];
-    const prevVWAP = vwap[lastIndex - 1] as number | null;
-    const crossUp =
-      prevVWAP != null && lVWAP != null ? prevClose <= prevVWAP && lClose > lVWAP : false;
-    const crossDown =
-      prevVWAP != null && lVWAP != null ? prevClose >= prevVWAP && lClose < lVWAP : false;
+    const prevVWAP =
+      anchorIndex[lastIndex] < lastIndex ? (vwap[lastIndex - 1] as number | null) : null;
+    const crossUp = prevVWAP != null ? prevClose <= prevVWAP && lClose > lVWAP : false;
+    const crossDown = prevVWAP != null ? prevClose >= prevVWAP && lClose < lVWAP : false;
+
+    // Pullback na banda: tendência da VWAP a favor e mínima/máxima tocou ±1σ voltando p/ dentro
+    const lowerTouch = lSigma > 0 && lows[lastIndex] <= (bands.lower1[lastIndex] ?? -Infinity);
+    const upperTouch = lSigma > 0 && highs[lastIndex] >= (bands.upper1[lastIndex] ?? Infinity);
+    const pullbackLong = lowerTouch && lClose > (bands.lower1[lastIndex] ?? Infinity);
+    const pullbackShort = upperTouch && lClose < (bands.upper1[lastIndex] ?? -Infinity);
 
     // Regras profissionais (conservadoras):
     // - Long: distância acima do limiar E slope da VWAP positivo
     //         OU cruzamento recente pra cima com slope >= 0
     // - Short: distância abaixo do limiar E slope da VWAP negativo
     //          OU cruzamento recente pra baixo com slope <= 0
-    let entrySignal: "long" | "short" | "none" = "none";
-    if (lVWAP != null) {
-      const aboveTh = lClose >= lVWAP * (1 + threshold / 100);
-      const belowTh = lClose <= lVWAP * (1 - threshold / 100);
+    // - Pullback em ±1σ a favor do slope também dispara; acima de ±3σ não persegue o preço
+    const aboveTh = lClose >= lVWAP * (1 + threshold / 100);
+    const belowTh = lClose <= lVWAP * (1 - threshold / 100);
 
-      const longOk = (aboveTh && slopePct > 0) || ((recentAbove || crossUp) && slopePct >= 0);
-      const shortOk = (belowTh && slopePct < 0) || ((recentBelow || crossDown) && slopePct <= 0);
+    const longOk = (aboveTh && slopePct > 0) || ((recentAbove || crossUp) && slopePct >= 0);
+    const shortOk = (belowTh && slopePct < 0) || ((recentBelow || crossDown) && slopePct <= 0);
 
-      if (longOk) entrySignal = "long";
-      else if (shortOk) entrySignal = "short";
-    }
+    let entrySignal: "long" | "short" | "none" = "none";
+    if ((longOk || (pullbackLong && slopePct > 0)) && !extendedUp) entrySignal = "long";
+    else if ((shortOk || (pullbackShort && slopePct < 0)) && !extendedDown) entrySignal = "short";
+
+    // Stops nas bandas de 2σ (sem dispersão ainda, no início da âncora, não publica)
+    const stopLong = lSigma > 0 ? (bands.lower2[lastIndex] ?? undefined) : undefined;
+    const stopShort = lSigma > 0 ? (bands.upper2[lastIndex] ?? undefined) : undefined;
 
     // Confiança:
     // - distFactor: distância relativa vs limiar (satura em 2x threshold)
@@ -157,8 +240,19 @@ export class VWAPIndicator {
         diffPct,
         slopePct,
         zScore,
+        sigma: lSigma,
+        sigmaPos,
       },
       vwap,
+      bands,
+      sigmaPos,
+      extendedUp,
+      extendedDown,
+      pullbackLong,
+      pullbackShort,
+      stopLong,
+      stopShort,
+      anchorStart: anchorIndex[lastIndex],
       diffPct,
       slopePct,
       zScore,
@@ -170,6 +264,8 @@ export class VWAPIndicator {
       confidence,
       meta: {
         thresholdPct: threshold,
+        anchor: mode,
+        session,
         lastIndex,
         confirmOnClose,
         slopeWindow,
@@ -201,6 +297,9 @@ export class VWAPIndicator {
     const zMag = Math.abs(r.zScore ?? 0);
     if (slopeMag >= 0.5 && zMag >= 1.0) quality = 1.0;
     else if (slopeMag >= 0.3 || zMag >= 0.8) quality = 0.9;
+    // pullback em ±1σ a favor da VWAP: entrada com risco curto até a banda de 2σ
+    if ((dir > 0 && r.pullbackLong) || (dir < 0 && r.pullbackShort))
+      quality = Math.max(quality, 0.95);
 
     return {
       id: "vwap",
@@ -1,5 +1,6 @@
 import * as TI from "technicalindicators";
 import { padLeft } from "../utils/pad-left.js";
+import { findPivots, type Pivot } from "../utils/pivots.js";
 import { Candles, IIndicatorDecisionMin } from "./types.js";
 
 export type AlligatorParams = {
@@ -12,8 +13,15 @@ export type AlligatorParams = {
   teethShift?: number; // default 5 (para frente)
   jawShift?: number; // default 8 (para frente)
   recentBars?: number; // janela para cruzamentos recentes (default 3)
+  fractalSpan?: number; // barras de cada lado do fractal (default 2)
+  aoFast?: number; // Awesome Oscillator: SMA rápida do preço mediano (default 5)
+  aoSlow?: number; // Awesome Oscillator: SMA lenta (default 34)
+  acPeriod?: number; // Accelerator: SMA do AO (default 5)
+  requireFractalBreakout?: boolean; // gatilho só com rompimento de fractal além dos dentes (default false)
 };
 
+export type GatorPhase = "sleeping" | "awakening" | "eating" | "sated";
+
 function medianPrice(highs: number[], lows: number[]): number[] {
   const out: number[] = [];
   const len = Math.max(highs.length, lows.length);
@@ -44,6 +52,90 @@ function slopeAt(arr: Array<number | null>, idx: number, k: number): number | nu
   return a - b;
 }
 
+/**
+ * Fractais de Williams: topo com `span` máximas menores de cada lado (fundo análogo).
+ * Só confirma com `span` barras fechadas após o fractal até `endIndex`.
+ */
+export function williamsFractals(
+  highs: number[],
+  lows: number[],
+  span = 2,
+  endIndex = Math.min(highs.length, lows.length) - 1,
+): { up: Pivot[]; down: Pivot[] } {
+  return {
+    up: findPivots(highs, span, span, endIndex).highs,
+    down: findPivots(lows, span, span, endIndex).lows,
+  };
+}
+
+/** Awesome Oscillator: SMA(fast) − SMA(slow) do preço mediano. */
+export function awesomeOscillator(
+  highs: number[],
+  lows: number[],
+  fast = 5,
+  slow = 34,
+): Array<number | null> {
+  const med = medianPrice(highs, lows);
+  const len = med.length;
+  const f = padLeft(len, TI.SMA.calculate({ period: fast, values: med }));
+  const sl = padLeft(len, TI.SMA.calculate({ period: slow, values: med }));
+  return f.map((v, i) => (v != null && sl[i] != null ? v - (sl[i] as number) : null));
+}
+
+/** Accelerator Oscillator: AO − SMA(period) do AO. */
+export function acceleratorOscillator(ao: Array<number | null>, period = 5): Array<number | null> {
+  const values = ao.filter((v): v is number => v != null);
+  const sma = padLeft(ao.length, TI.SMA.calculate({ period, values }));
+  return ao.map((v, i) => (v != null && sma[i] != null ? v - (sma[i] as number) : null));
+}
+
+/** Gator: barra superior |jaw − teeth|, inferior −|teeth − lips| (linhas já deslocadas). */
+export function gatorOscillator(
+  lips: Array<number | null>,
+  teeth: Array<number | null>,
+  jaw: Array<number | null>,
+): { upper: Array<number | null>; lower: Array<number | null> } {
+  const upper = jaw.map((j, i) => {
+    const t = teeth[i];
+    return j != null && t != null ? Math.abs(j - t) : null;
+  });
+  const lower = teeth.map((t, i) => {
+    const l = lips[i];
+    return t != null && l != null ? -Math.abs(t - l) : null;
+  });
+  return { upper, lower };
+}
+
+// Fase do Gator: as duas barras crescendo = comendo; as duas caindo = dormindo;
+// cores mistas = acordando (vindo do sono) ou saciado (vindo de "comendo")
+function gatorPhaseAt(
+  upper: Array<number | null>,
+  lower: Array<number | null>,
+  idx: number,
+): GatorPhase | null {
+  const barState = (i: number): "both-up" | "both-down" | "mixed" | null => {
+    const u = upper[i];
+    const pu = upper[i - 1];
+    const l = lower[i];
+    const pl = lower[i - 1];
+    if (u == null || pu == null || l == null || pl == null) return null;
+    const upRising = u > pu;
+    const lowRising = Math.abs(l) > Math.abs(pl);
+    return upRising && lowRising ? "both-up" : !upRising && !lowRising ? "both-down" : "mixed";
+  };
+  const cur = barState(idx);
+  if (cur == null) return null;
+  if (cur === "both-up") return "eating";
+  if (cur === "both-down") return "sleeping";
+  for (let i = idx - 1; i >= Math.max(1, idx - 50); i--) {
+    const st = barState(i);
+    if (st == null) break;
+    if (st === "both-up") return "sated";
+    if (st === "both-down") return "awakening";
+  }
+  return "awakening";
+}
+
 export class WilliamsAlligatorIndicator {
   static calculate({
     candles,
@@ -55,6 +147,11 @@ export class WilliamsAlligatorIndicator {
     teethShift = 5,
     jawShift = 8,
     recentBars = 3,
+    fractalSpan = 2,
+    aoFast = 5,
+    aoSlow = 34,
+    acPeriod = 5,
+    requireFractalBreakout = false,
   }: AlligatorParams) {
     const { highs, lows } = candles;
     // Base do cálculo: mínimos para highs/lows
@@ -197,13 +294,100 @@ export class WilliamsAlligatorIndicator {
       // mantém fallback (spreadPct/100)
     }
 
+    // Fractais: o último fractal de topo/fundo só vale se estiver além dos dentes
+    // no momento do rompimento (regra clássica de Williams)
+    const fractals = williamsFractals(highs, lows, fractalSpan, lastIndex);
+    const lastUpFractal = fractals.up[fractals.up.length - 1] ?? null;
+    const lastDownFractal = fractals.down[fractals.down.length - 1] ?? null;
+
+    let barsSinceFractalBreakUp: number | null = null;
+    if (lastUpFractal) {
+      for (let i = lastUpFractal.index + fractalSpan + 1; i <= lastIndex; i++) {
+        if (highs[i] > lastUpFractal.value) {
+          const t = teeth[i] as number | null;
+          if (t != null && lastUpFractal.value > t) barsSinceFractalBreakUp = lastIndex - i;
+          break;
+        }
+      }
+    }
+    let barsSinceFractalBreakDown: number | null = null;
+    if (lastDownFractal) {
+      for (let i = lastDownFractal.index + fractalSpan + 1; i <= lastIndex; i++) {
+        if (lows[i] < lastDownFractal.value) {
+          const t = teeth[i] as number | null;
+          if (t != null && lastDownFractal.value < t) barsSinceFractalBreakDown = lastIndex - i;
+          break;
+        }
+      }
+    }
+    const fractalBreakUp = barsSinceFractalBreakUp != null && barsSinceFractalBreakUp <= recentBars;
+    const fractalBreakDown =
+      barsSinceFractalBreakDown != null && barsSinceFractalBreakDown <= recentBars;
+
+    // Awesome Oscillator: pires (saucer), cruzamento do zero e picos gêmeos
+    const ao = awesomeOscillator(highs, lows, aoFast, aoSlow);
+    const a0 = ao[lastIndex];
+    const a1 = ao[lastIndex - 1];
+    const a2 = ao[lastIndex - 2];
+    const hasAO = a0 != null && a1 != null && a2 != null;
+    const aoSaucerBull = hasAO && a0 > 0 && a1 > 0 && a2 > 0 && a2 > a1 && a0 > a1;
+    const aoSaucerBear = hasAO && a0 < 0 && a1 < 0 && a2 < 0 && a2 < a1 && a0 < a1;
+    const aoZeroCrossUp = hasAO && a1 <= 0 && a0 > 0;
+    const aoZeroCrossDown = hasAO && a1 >= 0 && a0 < 0;
+
+    // picos gêmeos: dois vales abaixo de zero, o segundo mais raso, sem cruzar o zero
+    // entre eles, seguidos de barra verde (espelhado para topos acima de zero)
+    const aoPivots = findPivots(ao, 2, 1, lastIndex);
+    const twinPeaks = (pivots: Pivot[], bull: boolean) => {
+      if (!hasAO || pivots.length < 2) return false;
+      const [p1, p2] = pivots.slice(-2);
+      if (lastIndex - p2.index > recentBars + 1) return false;
+      const sameSide = (v: number | null) => v != null && (bull ? v < 0 : v > 0);
+      for (let i = p1.index; i <= lastIndex; i++) if (!sameSide(ao[i])) return false;
+      return bull ? p2.value > p1.value && a0 > a1 : p2.value < p1.value && a0 < a1;
+    };
+    const aoTwinPeaksBull = twinPeaks(aoPivots.lows, true);
+    const aoTwinPeaksBear = twinPeaks(aoPivots.highs, false);
+    const aoBullSignal = aoSaucerBull || aoZeroCrossUp || aoTwinPeaksBull;
+    const aoBearSignal = aoSaucerBear || aoZeroCrossDown || aoTwinPeaksBear;
+
+    // Accelerator: acima de zero bastam 2 barras verdes; abaixo, 3 (espelhado p/ venda)
+    const ac = acceleratorOscillator(ao, acPeriod);
+    const acAt = (k: number) => ac[lastIndex - k];
+    const acRun = (up: boolean, n: number) => {
+      for (let k = 0; k < n; k++) {
+        const v = acAt(k);
+        const pv = acAt(k + 1);
+        if (v == null || pv == null || (up ? v <= pv : v >= pv)) return false;
+      }
+      return true;
+    };
+    const lAC = acAt(0);
+    const acBull = lAC != null && acRun(true, lAC > 0 ? 2 : 3);
+    const acBear = lAC != null && acRun(false, lAC < 0 ? 2 : 3);
+
+    // Gator: fase do "apetite" do jacaré
+    const gator = gatorOscillator(lips, teeth, jaw);
+    const gatorPhase = gatorPhaseAt(gator.upper, gator.lower, lastIndex);
+
     // Regras de entrada mais conservadoras:
     // - exige boca alinhada E pelo menos um (gatilho recente OU slopes coerentes OU preço confirmando)
+    // - com requireFractalBreakout o gatilho é o rompimento do fractal além dos dentes
+    //   (basta a boca não estar contra, como no sistema original)
     const bullishTrigger = recentBullLT || recentBullTJ || slopesUp || priceAboveAll;
     const bearishTrigger = recentBearLT || recentBearTJ || slopesDown || priceBelowAll;
 
     let entrySignal: "long" | "short" | "none" = "none";
-    if (mouthBull && bullishTrigger) entrySignal = "long";
+    if (requireFractalBreakout) {
+      const upFirst =
+        fractalBreakUp &&
+        (!fractalBreakDown || barsSinceFractalBreakUp! < barsSinceFractalBreakDown!);
+      const downFirst =
+        fractalBreakDown &&
+        (!fractalBreakUp || barsSinceFractalBreakDown! < barsSinceFractalBreakUp!);
+      if (upFirst && !mouthBear) entrySignal = "long";
+      else if (downFirst && !mouthBull) entrySignal = "short";
+    } else if (mouthBull && bullishTrigger) entrySignal = "long";
     else if (mouthBear && bearishTrigger) entrySignal = "short";
 
     // Confiança ponderando abertura normalizada, slopes e confirmação de preço/gatilho
@@ -220,10 +404,21 @@ export class WilliamsAlligatorIndicator {
         : 0;
 
     const dir = entrySignal === "long" ? 1 : entrySignal === "short" ? -1 : 0;
-    const confidence = Math.min(
+    const aoAgrees = (dir > 0 && aoBullSignal) || (dir < 0 && aoBearSignal);
+    const aoOpposes = hasAO && ((dir > 0 && a0 < 0 && a0 < a1) || (dir < 0 && a0 > 0 && a0 > a1));
+    const acAgrees = (dir > 0 && acBull) || (dir < 0 && acBear);
+    const oscBoost = (aoAgrees ? 0.15 : 0) + (acAgrees ? 0.1 : 0);
+
+    let confidence = Math.min(
       1,
-      Math.max(0.3, Math.abs(dir) * (0.5 + mouthFactor + slopeBoost + priceBoost + triggerBoost)),
+      Math.max(
+        0.3,
+        Math.abs(dir) * (0.5 + mouthFactor + slopeBoost + priceBoost + triggerBoost + oscBoost),
+      ),
     );
+    if (dir !== 0 && aoOpposes) confidence -= 0.15;
+    if (dir !== 0 && gatorPhase === "sleeping") confidence -= 0.1; // jacaré dormindo: sem tendência
+    confidence = Math.max(0, Math.min(1, confidence));
 
     return {
       ok: true as const,
@@ -250,6 +445,26 @@ export class WilliamsAlligatorIndicator {
       slopesDown,
       priceAboveAll,
       priceBelowAll,
+      lastUpFractal,
+      lastDownFractal,
+      barsSinceFractalBreakUp,
+      barsSinceFractalBreakDown,
+      fractalBreakUp,
+      fractalBreakDown,
+      ao,
+      ac,
+      aoSaucerBull,
+      aoSaucerBear,
+      aoZeroCrossUp,
+      aoZeroCrossDown,
+      aoTwinPeaksBull,
+      aoTwinPeaksBear,
+      aoAgrees,
+      aoOpposes,
+      acBull,
+      acBear,
+      gator,
+      gatorPhase,
       entrySignal,
       confidence,
       meta: {
@@ -259,6 +474,11 @@ export class WilliamsAlligatorIndicator {
         lipsShift,
         teethShift,
         jawShift,
+        fractalSpan,
+        aoFast,
+        aoSlow,
+        acPeriod,
+        requireFractalBreakout,
         lastIndex,
         confirmOnClose,
       },
@@ -296,6 +516,12 @@ export class WilliamsAlligatorIndicator {
       }
     }
 
+    // Osciladores e Gator refinam a limpeza do setup
+    const fractalAgrees = dir > 0 ? r.fractalBreakUp : dir < 0 ? r.fractalBreakDown : false;
+    if (r.aoAgrees && fractalAgrees) quality = 1.0;
+    if (dir !== 0 && r.aoOpposes) quality = Math.min(quality, 0.75);
+    if (r.gatorPhase === "sleeping") quality = Math.min(quality, 0.7);
+
     return {
       id: "alligator",
       direction: dir > 0 ? "buy" : dir < 0 ? "sell" : "none",
@@ -0,0 +1,71 @@
+import fs from "fs/promises";
+import path from "path";
+import type { Kline } from "./binance.js";
+import { intervalToMs } from "./utils/interval";
+
+const CSV_DIR = process.env.CSV_DIR || ".";
+
+export function csvFileName(symbol: string, interval: string) {
+  return `${symbol.toUpperCase().replace(/\s+/g, "")}_${interval}.csv`;
+}
+
+/**
+ * Lê um CSV no formato gravado por saveCandlesToCSV (open,high,low,close,volume,closeTime)
+ * com a mesma assinatura dos provedores de klines. O arquivo guarda só o closeTime;
+ * o openTime é reconstruído a partir da duração do intervalo.
+ * Sem startTime devolve as últimas `limit` barras; com startTime, as primeiras a partir dele.
+ */
+export async function getKlines(
+  symbol: string,
+  interval: string,
+  limit = 500,
+  _options: { market?: string } = {},
+  { startTime, endTime }: { startTime?: number; endTime?: number } = {},
+): Promise<Kline[]> {
+  const file = path.join(CSV_DIR, csvFileName(symbol, interval));
+  let content: string;
+  try {
+    content = await fs.readFile(file, "utf8");
+  } catch {
+    throw new Error(`Arquivo CSV não encontrado: ${file}`);
+  }
+
+  const [headerLine, ...lines] = content.trim().split(/\r?\n/);
+  const header = headerLine.split(",").map((h) => h.trim());
+  const col = (name: string) => {
+    const idx = header.indexOf(name);
+    if (idx < 0) throw new Error(`Coluna "${name}" ausente em ${file}`);
+    return idx;
+  };
+  const iOpen = col("open");
+  const iHigh = col("high");
+  const iLow = col("low");
+  const iClose = col("close");
+  const iVolume = col("volume");
+  const iCloseTime = col("closeTime");
+
+  const dur = intervalToMs(interval);
+  const rows: Kline[] = lines
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      const cells = line.split(",");
+      const closeTime = parseInt(cells[iCloseTime], 10);
+      return {
+        openTime: closeTime - dur + 1,
+        open: parseFloat(cells[iOpen]),
+        high: parseFloat(cells[iHigh]),
+        low: parseFloat(cells[iLow]),
+        close: parseFloat(cells[iClose]),
+        volume: parseFloat(cells[iVolume]),
+        closeTime,
+      };
+    })
+    .filter(
+      (r) =>
+        (startTime == null || r.openTime >= startTime) &&
+        (endTime == null || r.openTime <= endTime),
+    );
+
+  if (startTime == null) return rows.slice(-limit);
+  return endTime == null ? rows.slice(0, limit) : rows;
+}
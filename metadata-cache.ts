@@ -0,0 +1,112 @@
+import fs from "fs/promises";
+import path from "path";
+
+export type MetadataCacheOptions = {
+  ttlMs?: number; // tempo em que o snapshot é considerado fresco (default 5 min)
+  maxStaleMs?: number; // sem rede, aceita snapshot até essa idade (default 7 dias)
+  persist?: boolean; // grava/lê snapshot em disco (default: METADATA_CACHE !== "off")
+  dir?: string; // default: METADATA_CACHE_DIR ou .cache/metadata
+};
+
+type Entry<T> = { data: T; ts: number };
+
+/**
+ * Cache de metadados (ex.: exchangeInfo) por provedor e mercado, cada mercado com seu
+ * próprio timestamp. Opcionalmente persistido em disco para rodar offline.
+ */
+export class MetadataCache<T> {
+  private entries = new Map<string, Entry<T>>();
+  private inflight = new Map<string, Promise<T>>();
+
+  constructor(
+    private provider: string,
+    private options: MetadataCacheOptions = {},
+  ) {}
+
+  async get(market: string, fetcher: () => Promise<T>, { force = false } = {}): Promise<T> {
+    const { ttlMs = 5 * 60 * 1000 } = this.options;
+    const entry = await this.load(market);
+    if (!force && entry && Date.now() - entry.ts < ttlMs) return entry.data;
+
+    // chamadas simultâneas (ex.: vários TFs em paralelo) compartilham a mesma busca
+    const pending = this.inflight.get(market);
+    if (pending) return pending;
+    const next = this.fetchAndStore(market, fetcher, entry).finally(() =>
+      this.inflight.delete(market),
+    );
+    this.inflight.set(market, next);
+    return next;
+  }
+
+  // Força nova busca, ignorando o TTL
+  refresh(market: string, fetcher: () => Promise<T>): Promise<T> {
+    return this.get(market, fetcher, { force: true });
+  }
+
+  // Idade (ms) do snapshot em memória/disco; undefined se não houver
+  async age(market: string): Promise<number | undefined> {
+    const entry = await this.load(market);
+    return entry ? Date.now() - entry.ts : undefined;
+  }
+
+  invalidate(market?: string) {
+    if (market) this.entries.delete(market);
+    else this.entries.clear();
+  }
+
+  private async fetchAndStore(
+    market: string,
+    fetcher: () => Promise<T>,
+    stale: Entry<T> | undefined,
+  ): Promise<T> {
+    const { maxStaleMs = 7 * 24 * 60 * 60 * 1000 } = this.options;
+    try {
+      const entry = { data: await fetcher(), ts: Date.now() };
+      this.entries.set(market, entry);
+      await this.save(market, entry);
+      return entry.data;
+    } catch (err: any) {
+      if (stale && Date.now() - stale.ts < maxStaleMs) {
+        console.warn(
+          `Falha ao atualizar metadados ${this.provider}/${market} (${err?.message}); usando snapshot local.`,
+        );
+        return stale.data;
+      }
+      throw err;
+    }
+  }
+
+  private get persist() {
+    return this.options.persist ?? process.env.METADATA_CACHE !== "off";
+  }
+
+  private filePath(market: string) {
+    const dir = this.options.dir ?? (process.env.METADATA_CACHE_DIR || ".cache/metadata");
+    return path.join(dir, `${this.provider}_${market}.json`);
+  }
+
+  private async load(market: string): Promise<Entry<T> | undefined> {
+    const mem = this.entries.get(market);
+    if (mem || !this.persist) return mem;
+    try {
+      const entry = JSON.parse(await fs.readFile(this.filePath(market), "utf8")) as Entry<T>;
+      if (entry?.data == null || !Number.isFinite(entry.ts)) return undefined;
+      this.entries.set(market, entry);
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async save(market: string, entry: Entry<T>) {
+    if (!this.persist) return;
+    try {
+      const file = this.filePath(market);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(entry));
+    } catch (err: any) {
+      // snapshot é otimização: falha de escrita não derruba a chamada
+      console.warn(`Não foi possível gravar snapshot de metadados: ${err?.message}`);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { parseWatchlist, scanWatchlist } from "./scanner";
+
+const WATCHLIST = process.env.WATCHLIST || process.argv[2] || "";
+const TIMEFRAMES = (process.env.TIMEFRAMES || "5m,15m").split(",").map((s) => s.trim());
+const LIMIT = Number(process.env.LIMIT || 500);
+const CONCURRENCY = Number(process.env.CONCURRENCY || 3);
+
+(async () => {
+  const watchlist = parseWatchlist(WATCHLIST);
+  if (!watchlist.length) {
+    console.error('Informe a watchlist: WATCHLIST="BTCUSDT,binance:COAI:futures,b3:PETR4"');
+    process.exit(1);
+  }
+
+  const rows = await scanWatchlist({
+    watchlist,
+    timeframes: TIMEFRAMES,
+    limit: LIMIT,
+    concurrency: CONCURRENCY,
+    decision: { buyThreshold: +0.15, sellThreshold: -0.15, basePositionPct: 0.25 },
+  });
+
+  console.table(
+    rows.map((r, i) => ({
+      rank: i + 1,
+      symbol: r.symbol,
+      provider: r.provider,
+      market: r.market,
+      direction: r.direction,
+      score: Number(r.ensembleScore.toFixed(3)),
+      confidence: Number(r.confidence.toFixed(3)),
+      positionPct: r.positionPct != null ? Number(r.positionPct.toFixed(3)) : undefined,
+      stopLoss: r.stopLossPrice,
+      error: r.error,
+    })),
+  );
+})().catch(console.error);
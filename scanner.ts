@@ -0,0 +1,115 @@
+import type { Market } from "./binance.js";
+import { getFuturesContext } from "./binance-futures.js";
+import { getCandles } from "./get-candles";
+import { mapWithConcurrency } from "./utils/concurrency";
+import { EnsembleAdaptive, type EnsembleParams } from "./utils/ensemble-multi-tf";
+
+export type Provider = "binance" | "b3" | "csv";
+
+export type WatchlistEntry = {
+  symbol: string;
+  provider: Provider;
+  market: Market;
+};
+
+export type ScanRow = {
+  symbol: string;
+  provider: Provider;
+  market: Market;
+  direction: "buy" | "sell" | "none";
+  ensembleScore: number;
+  confidence: number;
+  positionPct?: number; // % do limite diário sugerido
+  stopLossPrice?: number;
+  error?: string;
+};
+
+export type ScanParams = {
+  watchlist: WatchlistEntry[];
+  timeframes: string[]; // ex.: ["5m", "15m", "1h"]
+  limit?: number; // candles por TF (default 500)
+  concurrency?: number; // símbolos processados em paralelo (default 3)
+  ensemble?: EnsembleAdaptive; // reaproveita pesos/learner; default: nova instância
+  decision?: Omit<EnsembleParams, "timeframes">;
+};
+
+/**
+ * Lê uma watchlist no formato "provider:SYMBOL[:market]" separada por vírgula.
+ * Sem provider assume binance; ex.: "BTCUSDT,binance:COAI:futures,b3:PETR4".
+ */
+export function parseWatchlist(raw: string): WatchlistEntry[] {
+  return raw
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const parts = item.split(":");
+      const hasProvider = ["binance", "b3", "csv"].includes(parts[0].toLowerCase());
+      const provider = (hasProvider ? parts[0].toLowerCase() : "binance") as Provider;
+      const [symbol, market = "spot"] = hasProvider ? parts.slice(1) : parts;
+      if (!symbol) throw new Error(`Item inválido na watchlist: "${item}"`);
+      const m = market.toLowerCase();
+      if (m !== "spot" && m !== "futures") {
+        throw new Error(`Mercado inválido na watchlist: "${item}" (use spot ou futures)`);
+      }
+      return { symbol, provider, market: m as Market };
+    });
+}
+
+async function scanOne(
+  entry: WatchlistEntry,
+  { timeframes, limit = 500, decision }: ScanParams,
+  ens: EnsembleAdaptive,
+): Promise<ScanRow> {
+  const base = { symbol: entry.symbol, provider: entry.provider, market: entry.market };
+  try {
+    const candles = await Promise.all(
+      timeframes.map(async (tf) => {
+        const c = await getCandles(entry.symbol, tf, limit, entry.provider, entry.market);
+        if (entry.provider !== "binance" || entry.market !== "futures") return c;
+        // funding/OI são opcionais: sem eles o ensemble só ignora esses votos
+        const ctx = await getFuturesContext(entry.symbol, tf, c.times).catch(() => null);
+        return ctx ? { ...c, ...ctx } : c;
+      }),
+    );
+    const out = ens.decision({
+      confirmOnClose: true,
+      ...decision,
+      timeframes: timeframes.map((label, i) => ({
+        label,
+        candles: candles[i],
+        // pregão da B3 tem gaps naturais (noite/fim de semana)
+        validation: entry.provider === "b3" ? { session: "b3" } : undefined,
+        params: entry.provider === "b3" ? { vwap: { session: "b3" as const } } : undefined,
+      })),
+    });
+    return {
+      ...base,
+      direction: out.direction,
+      ensembleScore: out.breakdown.ensembleScore,
+      confidence: out.score.confidence,
+      positionPct: out.sizing?.positionPctOfDailyLimit,
+      stopLossPrice: out.sizing?.stopLossPrice,
+    };
+  } catch (err: any) {
+    return { ...base, direction: "none", ensembleScore: 0, confidence: 0, error: err?.message };
+  }
+}
+
+/**
+ * Roda o EnsembleAdaptive para cada símbolo da watchlist e devolve o ranking:
+ * |ensembleScore| desc, depois confiança e sizing. Símbolos com erro vão para o fim.
+ */
+export async function scanWatchlist(params: ScanParams): Promise<ScanRow[]> {
+  const ens = params.ensemble ?? new EnsembleAdaptive();
+  const rows = await mapWithConcurrency(params.watchlist, params.concurrency ?? 3, (entry) =>
+    scanOne(entry, params, ens),
+  );
+  return rows.sort(
+    (a, b) =>
+      Number(!!a.error) - Number(!!b.error) ||
+      Math.abs(b.ensembleScore) - Math.abs(a.ensembleScore) ||
+      b.confidence - a.confidence ||
+      (b.positionPct ?? 0) - (a.positionPct ?? 0),
+  );
+}
@@ -0,0 +1,132 @@
+import { getExchangeInfo, resolveSymbol, type Market, type SymbolFilter } from "./binance.js";
+import type { DecisionOut } from "./utils/ensemble-multi-tf";
+
+export type SymbolMeta = {
+  symbol: string;
+  market: Market;
+  status: string;
+  baseAsset: string;
+  quoteAsset: string;
+  tickSize: number; // PRICE_FILTER
+  minPrice: number;
+  maxPrice: number;
+  stepSize: number; // LOT_SIZE
+  minQty: number;
+  maxQty: number;
+  minNotional: number; // MIN_NOTIONAL / NOTIONAL (0 = sem filtro)
+  pricePrecision: number; // casas decimais de preço
+  quantityPrecision: number; // casas decimais de quantidade
+};
+
+export type RoundMode = "floor" | "ceil" | "round";
+
+// Casas decimais de um passo ("0.00010000" -> 4, "1.00000000" -> 0)
+export function stepDecimals(step: number | string): number {
+  const s = typeof step === "number" ? step.toFixed(12) : step;
+  const frac = s.split(".")[1]?.replace(/0+$/, "") ?? "";
+  return frac.length;
+}
+
+// Arredonda para múltiplo de `step` sem o ruído de ponto flutuante (0.1 + 0.2...)
+export function roundToStep(value: number, step: number, mode: RoundMode = "round"): number {
+  if (!step || !Number.isFinite(value)) return value;
+  const ratio = value / step;
+  const eps = 1e-9; // evita que 12.3 / 0.1 = 122.99999 caia para 122
+  const n =
+    mode === "floor"
+      ? Math.floor(ratio + eps)
+      : mode === "ceil"
+        ? Math.ceil(ratio - eps)
+        : Math.round(ratio);
+  return Number((n * step).toFixed(stepDecimals(step)));
+}
+
+function filterOf(filters: SymbolFilter[] | undefined, type: string) {
+  return filters?.find((f) => f.filterType === type);
+}
+
+function num(v: unknown, fallback = 0) {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+export async function getSymbolMeta(
+  input: string,
+  { market = "spot" }: { market?: Market } = {},
+): Promise<SymbolMeta> {
+  const symbol = await resolveSymbol(input, { market });
+  const info = await getExchangeInfo(market);
+  const s = info.symbols.find((x) => x.symbol === symbol);
+  if (!s) throw new Error(`Metadados de "${symbol}" não encontrados em ${market}.`);
+
+  const price = filterOf(s.filters, "PRICE_FILTER");
+  const lot = filterOf(s.filters, "LOT_SIZE");
+  // spot usa NOTIONAL (MIN_NOTIONAL legado); futures usa MIN_NOTIONAL com o campo "notional"
+  const notional = filterOf(s.filters, "NOTIONAL") ?? filterOf(s.filters, "MIN_NOTIONAL");
+
+  const tickSize = num(price?.tickSize);
+  const stepSize = num(lot?.stepSize);
+  return {
+    symbol,
+    market,
+    status: s.status,
+    baseAsset: s.baseAsset,
+    quoteAsset: s.quoteAsset,
+    tickSize,
+    minPrice: num(price?.minPrice),
+    maxPrice: num(price?.maxPrice, Infinity) || Infinity,
+    stepSize,
+    minQty: num(lot?.minQty),
+    maxQty: num(lot?.maxQty, Infinity) || Infinity,
+    minNotional: num(notional?.minNotional ?? notional?.notional),
+    pricePrecision:
+      s.pricePrecision ?? (price?.tickSize ? stepDecimals(String(price.tickSize)) : 8),
+    quantityPrecision:
+      s.quantityPrecision ?? (lot?.stepSize ? stepDecimals(String(lot.stepSize)) : 8),
+  };
+}
+
+export function roundPrice(meta: SymbolMeta, price: number, mode: RoundMode = "round") {
+  return meta.tickSize
+    ? roundToStep(price, meta.tickSize, mode)
+    : Number(price.toFixed(meta.pricePrecision));
+}
+
+// Stop de compra fica abaixo do preço (arredonda p/ baixo); de venda, acima (p/ cima)
+export function roundStopPrice(meta: SymbolMeta, stop: number, direction: "buy" | "sell") {
+  return roundPrice(meta, stop, direction === "buy" ? "floor" : "ceil");
+}
+
+export function roundDecisionStop(meta: SymbolMeta, decision: DecisionOut): number | undefined {
+  const stop = decision.sizing?.stopLossPrice;
+  if (stop == null || decision.direction === "none") return undefined;
+  return roundStopPrice(meta, stop, decision.direction);
+}
+
+/**
+ * Ajusta a quantidade ao LOT_SIZE (sempre para baixo, para não exceder o capital) e
+ * checa minQty/maxQty e, com `price`, o notional mínimo.
+ */
+export function roundQuantity(
+  meta: SymbolMeta,
+  quantity: number,
+  price?: number,
+): { quantity: number; valid: boolean; reason?: string } {
+  const q = meta.stepSize
+    ? roundToStep(quantity, meta.stepSize, "floor")
+    : Number(quantity.toFixed(meta.quantityPrecision));
+  if (q <= 0 || q < meta.minQty) {
+    return { quantity: q, valid: false, reason: `Quantidade abaixo do mínimo (${meta.minQty}).` };
+  }
+  if (q > meta.maxQty) {
+    return { quantity: q, valid: false, reason: `Quantidade acima do máximo (${meta.maxQty}).` };
+  }
+  if (price != null && meta.minNotional && q * price < meta.minNotional) {
+    return {
+      quantity: q,
+      valid: false,
+      reason: `Notional ${Number((q * price).toFixed(8))} abaixo do mínimo (${meta.minNotional}).`,
+    };
+  }
+  return { quantity: q, valid: true };
+}
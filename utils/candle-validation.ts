@@ -0,0 +1,257 @@
+import { intervalToMs } from "./interval";
+import { sessionKey, type TradingSession } from "./session";
+
+export type SeriesCandles = {
+  closes: number[];
+  opens?: number[];
+  highs?: number[];
+  lows?: number[];
+  volumes?: number[];
+  times?: number[]; // closeTime de cada barra
+};
+
+export type CandleIssueType =
+  | "nan" // valor não numérico (ex.: parseFloat de string vazia)
+  | "ohlc" // high < low ou open/close fora de [low, high]
+  | "duplicate" // closeTime repetido
+  | "out-of-order" // closeTime menor que o anterior
+  | "gap" // barras faltando entre duas consecutivas
+  | "zero-volume";
+
+export type CandleIssue = {
+  type: CandleIssueType;
+  index: number;
+  time?: number;
+  detail: string;
+};
+
+export type CandleReport = {
+  ok: boolean; // sem problemas graves (nan/ohlc/duplicate/out-of-order)
+  length: number;
+  issues: CandleIssue[];
+  counts: Record<CandleIssueType, number>;
+  missingBars: number;
+  score: number; // 0..1 (1 = série limpa)
+};
+
+export type ValidationOptions = {
+  interval?: string; // sem ele, o passo é inferido pela mediana dos tempos
+  continuous?: boolean; // mercado 24/7 (default true); false ignora gaps (ex.: pregão da B3)
+  session?: TradingSession; // mercado com pregão: gaps entre sessões (noite/fim de semana) não contam
+};
+
+export type RepairMode = "forward-fill" | "drop" | "flag";
+
+const SEVERE: CandleIssueType[] = ["nan", "ohlc", "duplicate", "out-of-order"];
+
+// gap entre duas barras de sessões diferentes = mercado fechado, não barra faltando
+function crossesSession(prevTime: number, time: number, session?: TradingSession) {
+  return session != null && sessionKey(prevTime, session) !== sessionKey(time, session);
+}
+
+function stepMs(times: number[], interval?: string): number | null {
+  if (interval) {
+    try {
+      return intervalToMs(interval);
+    } catch {
+      // rótulo livre ("daily"...): cai na inferência
+    }
+  }
+  const diffs = [];
+  for (let i = 1; i < times.length; i++) {
+    const d = times[i] - times[i - 1];
+    if (d > 0) diffs.push(d);
+  }
+  if (!diffs.length) return null;
+  diffs.sort((a, b) => a - b);
+  return diffs[Math.floor(diffs.length / 2)];
+}
+
+function barIssue(c: SeriesCandles, i: number): { type: CandleIssueType; detail: string } | null {
+  const fields: Array<[string, number[] | undefined]> = [
+    ["open", c.opens],
+    ["high", c.highs],
+    ["low", c.lows],
+    ["close", c.closes],
+    ["volume", c.volumes],
+  ];
+  for (const [name, arr] of fields) {
+    if (arr && !Number.isFinite(arr[i])) return { type: "nan", detail: `${name} = ${arr[i]}` };
+  }
+  const h = c.highs?.[i];
+  const l = c.lows?.[i];
+  if (h == null || l == null) return null;
+  if (h < l) return { type: "ohlc", detail: `high ${h} < low ${l}` };
+  const o = c.opens?.[i];
+  const cl = c.closes[i];
+  if (cl < l || cl > h) return { type: "ohlc", detail: `close ${cl} fora de [${l}, ${h}]` };
+  if (o != null && (o < l || o > h))
+    return { type: "ohlc", detail: `open ${o} fora de [${l}, ${h}]` };
+  return null;
+}
+
+export function validateCandles(
+  candles: SeriesCandles,
+  { interval, continuous = true, session }: ValidationOptions = {},
+): CandleReport {
+  const len = candles.closes.length;
+  const times = candles.times ?? [];
+  const issues: CandleIssue[] = [];
+  const counts: Record<CandleIssueType, number> = {
+    nan: 0,
+    ohlc: 0,
+    duplicate: 0,
+    "out-of-order": 0,
+    gap: 0,
+    "zero-volume": 0,
+  };
+  const push = (type: CandleIssueType, index: number, detail: string) => {
+    counts[type]++;
+    issues.push({ type, index, time: times[index], detail });
+  };
+
+  for (let i = 0; i < len; i++) {
+    const bad = barIssue(candles, i);
+    if (bad) push(bad.type, i, bad.detail);
+    else if (candles.volumes && candles.volumes[i] === 0) push("zero-volume", i, "volume = 0");
+  }
+
+  let missingBars = 0;
+  const step = times.length === len ? stepMs(times, interval) : null;
+  for (let i = 1; i < times.length; i++) {
+    const d = times[i] - times[i - 1];
+    if (d === 0) push("duplicate", i, `closeTime repetido (${times[i]})`);
+    else if (d < 0) push("out-of-order", i, `closeTime ${times[i]} < ${times[i - 1]}`);
+    else if (
+      continuous &&
+      step &&
+      d > step * 1.5 &&
+      !crossesSession(times[i - 1], times[i], session)
+    ) {
+      const missing = Math.round(d / step) - 1;
+      missingBars += missing;
+      push("gap", i, `${missing} barra(s) faltando antes do índice ${i}`);
+    }
+  }
+
+  const severe = SEVERE.reduce((a, t) => a + counts[t], 0);
+  const weighted = severe + 0.5 * missingBars + 0.25 * counts["zero-volume"];
+  const score = len ? Math.max(0, Math.min(1, 1 - weighted / (len + missingBars))) : 0;
+
+  return { ok: len > 0 && severe === 0, length: len, issues, counts, missingBars, score };
+}
+
+/**
+ * Ordena, remove closeTimes duplicados (mantém o último) e trata barras inválidas:
+ * - "forward-fill": NaN vira barra “flat” no close anterior (volume 0), OHLC incoerente é
+ *   ajustado (high/low passam a envolver open/close) e gaps viram barras flat
+ * - "drop": descarta barras inválidas
+ * - "flag": mantém tudo e devolve `flags` marcando as barras com problema
+ */
+export function repairCandles<T extends SeriesCandles>(
+  candles: T,
+  { mode = "forward-fill", ...opts }: ValidationOptions & { mode?: RepairMode } = {},
+): { candles: T; report: CandleReport; flags: boolean[] } {
+  const len = candles.closes.length;
+  const hasTimes = candles.times?.length === len;
+
+  let idx = Array.from({ length: len }, (_, i) => i);
+  if (hasTimes) {
+    const times = candles.times!;
+    idx.sort((a, b) => times[a] - times[b] || a - b);
+    idx = idx.filter((i, k) => k === idx.length - 1 || times[idx[k + 1]] !== times[i]);
+  }
+
+  const pick = (arr?: number[]) => (arr ? idx.map((i) => arr[i]) : undefined);
+  let out: SeriesCandles = {
+    opens: pick(candles.opens),
+    highs: pick(candles.highs),
+    lows: pick(candles.lows),
+    closes: pick(candles.closes)!,
+    volumes: pick(candles.volumes),
+    times: pick(candles.times),
+  };
+
+  const n = out.closes.length;
+  let flags = Array.from({ length: n }, (_, i) => barIssue(out, i) != null);
+
+  if (mode === "drop") {
+    const keep = (arr?: number[]) => arr?.filter((_, i) => !flags[i]);
+    out = {
+      opens: keep(out.opens),
+      highs: keep(out.highs),
+      lows: keep(out.lows),
+      closes: keep(out.closes)!,
+      volumes: keep(out.volumes),
+      times: keep(out.times),
+    };
+    flags = flags.filter((f) => !f);
+  } else if (mode === "forward-fill") {
+    const step = hasTimes ? stepMs(out.times!, opts.interval) : null;
+    const filled: Required<SeriesCandles> = {
+      opens: [],
+      highs: [],
+      lows: [],
+      closes: [],
+      volumes: [],
+      times: [],
+    };
+    const fillFlags: boolean[] = [];
+    const pushFlat = (price: number, time: number) => {
+      filled.opens.push(price);
+      filled.highs.push(price);
+      filled.lows.push(price);
+      filled.closes.push(price);
+      filled.volumes.push(0);
+      filled.times.push(time);
+      fillFlags.push(true);
+    };
+
+    for (let i = 0; i < n; i++) {
+      const time = out.times?.[i] ?? NaN;
+      const prevClose = filled.closes[filled.closes.length - 1];
+      const prevTime = filled.times[filled.times.length - 1];
+      if (
+        opts.continuous !== false &&
+        step &&
+        prevTime != null &&
+        prevClose != null &&
+        !crossesSession(prevTime, time, opts.session)
+      ) {
+        for (let t = prevTime + step; time - t >= step * 0.5; t += step) pushFlat(prevClose, t);
+      }
+
+      const o = out.opens?.[i] ?? out.closes[i];
+      const h = out.highs?.[i] ?? out.closes[i];
+      const l = out.lows?.[i] ?? out.closes[i];
+      const c = out.closes[i];
+      const v = out.volumes?.[i] ?? 0;
+      if (![o, h, l, c, v].every(Number.isFinite)) {
+        // primeira barra inválida não tem referência: descartada
+        if (prevClose != null) pushFlat(prevClose, time);
+        continue;
+      }
+      filled.opens.push(o);
+      filled.highs.push(Math.max(o, h, l, c));
+      filled.lows.push(Math.min(o, h, l, c));
+      filled.closes.push(c);
+      filled.volumes.push(v);
+      filled.times.push(time);
+      fillFlags.push(flags[i]);
+    }
+
+    out = {
+      opens: out.opens && filled.opens,
+      highs: out.highs && filled.highs,
+      lows: out.lows && filled.lows,
+      closes: filled.closes,
+      volumes: out.volumes && filled.volumes,
+      times: out.times && filled.times,
+    };
+    flags = fillFlags;
+  }
+
+  const result = { ...candles, ...out } as T;
+  if ("length" in candles) (result as any).length = out.closes.length;
+  return { candles: result, report: validateCandles(result, opts), flags };
+}
@@ -0,0 +1,87 @@
+import { findPivots } from "./pivots";
+
+export type DivergenceKind =
+  | "regular-bullish" // preço faz fundo mais baixo, oscilador fundo mais alto (reversão p/ alta)
+  | "regular-bearish" // preço faz topo mais alto, oscilador topo mais baixo (reversão p/ baixa)
+  | "hidden-bullish" // preço faz fundo mais alto, oscilador fundo mais baixo (continuação de alta)
+  | "hidden-bearish"; // preço faz topo mais baixo, oscilador topo mais alto (continuação de baixa)
+
+export type Divergence = {
+  kind: DivergenceKind;
+  from: number; // índice do pivô anterior
+  to: number; // índice do pivô mais recente
+  price: [number, number];
+  osc: [number, number];
+  barsAgo: number; // barras desde o pivô mais recente até endIndex
+};
+
+export type DivergenceParams = {
+  highs: number[]; // máximas (ou closes, na falta delas)
+  lows: number[]; // mínimas (ou closes)
+  oscillator: Array<number | null>; // RSI, histograma do MACD...
+  endIndex: number; // barra de referência (última fechada)
+  pivotStrength?: number; // barras de cada lado p/ confirmar pivô (default 3)
+  lookback?: number; // janela de busca em barras (default 60)
+};
+
+/**
+ * Compara os dois últimos pivôs de preço (topos e fundos) dentro da janela com o valor do
+ * oscilador nas mesmas barras. Retorna no máximo uma divergência de fundo e uma de topo.
+ */
+export function detectDivergences({
+  highs,
+  lows,
+  oscillator,
+  endIndex,
+  pivotStrength = 3,
+  lookback = 60,
+}: DivergenceParams) {
+  const from = Math.max(0, endIndex - lookback);
+  const inWindow = (p: { index: number }) => p.index >= from;
+  const pivLows = findPivots(lows, pivotStrength, pivotStrength, endIndex).lows.filter(inWindow);
+  const pivHighs = findPivots(highs, pivotStrength, pivotStrength, endIndex).highs.filter(inWindow);
+
+  const compare = (
+    pivots: Array<{ index: number; value: number }>,
+    side: "low" | "high",
+  ): Divergence | null => {
+    if (pivots.length < 2) return null;
+    const a = pivots[pivots.length - 2];
+    const b = pivots[pivots.length - 1];
+    const oa = oscillator[a.index];
+    const ob = oscillator[b.index];
+    if (oa == null || ob == null) return null;
+
+    let kind: DivergenceKind | null = null;
+    if (side === "low") {
+      if (b.value < a.value && ob > oa) kind = "regular-bullish";
+      else if (b.value > a.value && ob < oa) kind = "hidden-bullish";
+    } else {
+      if (b.value > a.value && ob < oa) kind = "regular-bearish";
+      else if (b.value < a.value && ob > oa) kind = "hidden-bearish";
+    }
+    if (!kind) return null;
+    return {
+      kind,
+      from: a.index,
+      to: b.index,
+      price: [a.value, b.value],
+      osc: [oa, ob],
+      barsAgo: endIndex - b.index,
+    };
+  };
+
+  const bullish = compare(pivLows, "low");
+  const bearish = compare(pivHighs, "high");
+  // mais recente primeiro (em empate, divergência regular prevalece)
+  const latest =
+    [bullish, bearish]
+      .filter((d): d is Divergence => d != null)
+      .sort(
+        (x, y) =>
+          x.barsAgo - y.barsAgo ||
+          Number(x.kind.startsWith("hidden")) - Number(y.kind.startsWith("hidden")),
+      )[0] ?? null;
+
+  return { bullish, bearish, latest };
+}
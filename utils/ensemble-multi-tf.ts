@@ -1,13 +1,28 @@
 // EnsembleAdaptive.ts
 import { ADXIndicator } from "../indicators/adx";
 import { BollingerBandsIndicator } from "../indicators/bollinger-bands";
+import { CandlePatternIndicator } from "../indicators/candle-patterns";
+import { ChaikinMoneyFlowIndicator } from "../indicators/cmf";
 import { EMAIndicator } from "../indicators/ema";
+import { FundingRateIndicator } from "../indicators/funding";
 import { IchimokuIndicator } from "../indicators/Ichimoku";
 import { MACDIndicator } from "../indicators/macd";
+import { MarketStructureIndicator, type StructureTrend } from "../indicators/market-structure";
+import { MFIIndicator } from "../indicators/mfi";
+import { OBVIndicator } from "../indicators/obv";
+import { OpenInterestIndicator } from "../indicators/open-interest";
+import { PSARIndicator } from "../indicators/psar";
 import { RSIIndicator } from "../indicators/rsi";
+import { StochRSIIndicator } from "../indicators/stoch-rsi";
+import { SupportResistanceIndicator } from "../indicators/support-resistance";
+import { StochasticIndicator } from "../indicators/stochastic";
+import { SupertrendIndicator } from "../indicators/supertrend";
 import { VolumeIndicator } from "../indicators/volume";
+import { VolumeProfileIndicator } from "../indicators/volume-profile";
 import { VWAPIndicator } from "../indicators/vwap";
 import { WilliamsAlligatorIndicator } from "../indicators/williams";
+import { validateCandles, type CandleIssueType, type ValidationOptions } from "./candle-validation";
+import { classifyRegime, type MarketRegime, type RegimeParams, type RegimeReport } from "./regime";
 
 type Candles = {
   closes: number[];
@@ -15,23 +30,49 @@ type Candles = {
   lows?: number[];
   opens?: number[];
   volumes?: number[];
+  times?: number[];
+  // contexto de futuros (opcional, alinhado aos candles; ver binance-futures.ts)
+  fundingRates?: Array<number | null>;
+  fundingTimes?: Array<number | null>;
+  premium?: Array<number | null>;
+  openInterest?: Array<number | null>;
 };
 
 // ---------- entradas ----------
+// params por TF: candles é opcional (o ensemble sempre injeta os candles do próprio TF)
+type TFParams<F extends (params: any) => unknown> = Omit<Parameters<F>[0], "candles"> & {
+  candles?: Parameters<F>[0]["candles"];
+};
+
 export type TFInput = {
   label: string; // "5m", "15m", "1h", "4h", "1D"...
   candles: Candles;
   weight?: number; // opcional: override do peso do TF
+  validation?: ValidationOptions; // opcional: sobrescreve EnsembleParams.validation neste TF
   params?: Partial<{
-    ema: Parameters<typeof EMAIndicator.decision>[0];
-    macd: Parameters<typeof MACDIndicator.decision>[0];
-    rsi: Parameters<typeof RSIIndicator.decision>[0];
-    ichimoku: Parameters<typeof IchimokuIndicator.decision>[0];
-    alligator: Parameters<typeof WilliamsAlligatorIndicator.decision>[0];
-    vwap: Parameters<typeof VWAPIndicator.decision>[0];
-    bollinger: Parameters<typeof BollingerBandsIndicator.decision>[0];
-    volume: Parameters<typeof VolumeIndicator.decision>[0];
-    adx: Parameters<typeof ADXIndicator.decision>[0];
+    ema: TFParams<typeof EMAIndicator.decision>;
+    macd: TFParams<typeof MACDIndicator.decision>;
+    rsi: TFParams<typeof RSIIndicator.decision>;
+    stochastic: TFParams<typeof StochasticIndicator.decision>;
+    stochrsi: TFParams<typeof StochRSIIndicator.decision>;
+    ichimoku: TFParams<typeof IchimokuIndicator.decision>;
+    alligator: TFParams<typeof WilliamsAlligatorIndicator.decision>;
+    vwap: TFParams<typeof VWAPIndicator.decision>;
+    bollinger: TFParams<typeof BollingerBandsIndicator.decision>;
+    volume: TFParams<typeof VolumeIndicator.decision>;
+    obv: TFParams<typeof OBVIndicator.decision>;
+    cmf: TFParams<typeof ChaikinMoneyFlowIndicator.decision>;
+    mfi: TFParams<typeof MFIIndicator.decision>;
+    vprofile: TFParams<typeof VolumeProfileIndicator.decision>;
+    adx: TFParams<typeof ADXIndicator.decision>;
+    supertrend: TFParams<typeof SupertrendIndicator.decision>;
+    psar: TFParams<typeof PSARIndicator.decision>;
+    sr: TFParams<typeof SupportResistanceIndicator.decision>;
+    patterns: TFParams<typeof CandlePatternIndicator.decision>;
+    structure: TFParams<typeof MarketStructureIndicator.decision>;
+    funding: TFParams<typeof FundingRateIndicator.decision>;
+    oi: TFParams<typeof OpenInterestIndicator.decision>;
+    regime: RegimeParams;
   }>;
 };
 
@@ -50,6 +91,17 @@ export type EnsembleParams = {
   // risco (failsafe p/ stops)
   minStopATRMultiple?: number; // default 1.0
   maxStopATRMultiple?: number; // default 3.0
+
+  // qualidade dos dados
+  validateData?: boolean; // default true: valida cada TF antes dos indicadores
+  minDataScore?: number; // default 0.8: abaixo disso (ou com erro grave) o TF é recusado
+  validation?: ValidationOptions; // default de todos os TFs; ex.: { session: "b3" } (gaps de pregão)
+
+  // estrutura de mercado
+  structureVeto?: boolean; // default false: veta trade contra a estrutura do TF de maior peso
+
+  // regime de mercado
+  regimeGating?: boolean; // default true: ajusta pesos por regime (tendência/lateral/volátil) do TF
 };
 
 // ---------- estrutura de estado para aprendizado ----------
@@ -70,6 +122,8 @@ type IndicatorVote = {
   priceRef?: number;
   stopLong?: number;
   stopShort?: number;
+  targetLong?: number; // alvo (take-profit) estrutural p/ compra
+  targetShort?: number;
   atr?: number;
 };
 
@@ -78,6 +132,13 @@ type TFVote = {
   weight: number;
   votes: IndicatorVote[];
   tfScore: number; // -1..+1
+  lastClose?: number; // close de referência (última barra fechada/atual) do TF
+  weights: Record<string, number>; // pesos por indicador usados neste TF
+  regime?: RegimeReport | null;
+  structure?: {
+    trend: StructureTrend;
+    lastEvent?: { type: "BOS" | "CHoCH"; direction: "bull" | "bear"; time?: number };
+  };
 };
 
 export type DecisionOut = {
@@ -101,7 +162,25 @@ export type DecisionOut = {
       qual: number;
       wInd: number;
     }>;
-    stopBlend?: { chosen?: number; candidates: Array<{ tf: string; id: string; stop?: number }> };
+    stopBlend?: {
+      chosen?: number;
+      candidates: Array<{ tf: string; id: string; stop?: number }>;
+      target?: number; // alvo mais próximo na direção do trade
+      targets?: Array<{ tf: string; id: string; target: number }>;
+    };
+    regimes?: Array<{ tf: string } & RegimeReport>;
+    structure?: {
+      tfs: Array<{ tf: string; trend: StructureTrend; lastEvent?: string; eventTime?: number }>;
+      vetoTf?: string; // TF cuja estrutura foi usada no veto
+      vetoed: boolean; // true: havia sinal, mas contra a estrutura
+    };
+    dataQuality?: Array<{
+      tf: string;
+      ok: boolean;
+      score: number;
+      counts: Record<CandleIssueType, number>;
+      action: "ok" | "downweighted" | "refused";
+    }>;
   };
 };
 const QUALITY_DEFAULT = 0.9;
@@ -115,11 +194,74 @@ export class EnsembleAdaptive {
     macd: 0.18,
     ichimoku: 0.14,
     rsi: 0.12,
+    stochastic: 0.05,
+    stochrsi: 0.04,
     adx: 0.1,
     bollinger: 0.1,
     vwap: 0.08,
     alligator: 0.06,
+    supertrend: 0.06,
+    psar: 0.04,
+    sr: 0.05,
+    patterns: 0.04,
+    structure: 0.06,
     volume: 0.04,
+    obv: 0.04,
+    cmf: 0.04,
+    mfi: 0.04,
+    vprofile: 0.05,
+    funding: 0.05, // só vota com candles.fundingRates (futuros)
+    oi: 0.05, // só vota com candles.openInterest (futuros)
+  };
+
+  // Multiplicadores por regime: em tendência os votos de reversão à média são abafados,
+  // em lateralidade os seguidores de tendência; ids ausentes ficam com 1.0
+  private regimeMultipliers: Record<MarketRegime, Record<string, number>> = {
+    trending: {
+      ema: 1.2,
+      macd: 1.2,
+      ichimoku: 1.2,
+      alligator: 1.2,
+      supertrend: 1.2,
+      psar: 1.1,
+      adx: 1.1,
+      structure: 1.1,
+      rsi: 0.3,
+      bollinger: 0.3,
+      stochastic: 0.3,
+      stochrsi: 0.3,
+      mfi: 0.5,
+      sr: 0.7,
+      vprofile: 0.7,
+    },
+    ranging: {
+      ema: 0.3,
+      macd: 0.3,
+      ichimoku: 0.3,
+      alligator: 0.3,
+      supertrend: 0.3,
+      psar: 0.3,
+      adx: 0.5,
+      rsi: 1.3,
+      bollinger: 1.3,
+      stochastic: 1.2,
+      stochrsi: 1.2,
+      mfi: 1.1,
+      sr: 1.2,
+      vprofile: 1.2,
+      vwap: 1.1,
+    },
+    volatile: {
+      // expansão desordenada: osciladores rápidos e padrões geram ruído
+      stochastic: 0.6,
+      stochrsi: 0.6,
+      patterns: 0.6,
+      psar: 0.7,
+      rsi: 0.8,
+      supertrend: 1.1,
+      structure: 1.2,
+      sr: 1.1,
+    },
   };
 
   // Banco de desempenho para auto-ajuste online
@@ -206,15 +348,17 @@ export class EnsembleAdaptive {
     return this.clamp(mult, this.maxCut, this.maxBoost);
   }
 
-  // Monta pesos por indicador considerando: baseline -> TF adaptation -> performance
-  private buildIndicatorWeightsForTF(tfLabel: string) {
+  // Monta pesos por indicador considerando: baseline -> TF adaptation -> regime -> performance
+  private buildIndicatorWeightsForTF(tfLabel: string, regime?: MarketRegime) {
     // 1) baseline
     const base = { ...this.indicatorBase };
     // 2) adapta por intervalo
     const adapt = this.adaptWeightsByInterval(tfLabel, base);
-    // 3) aplica multiplicadores de performance
+    // 3) regime do TF + multiplicadores de performance
+    const regimeMult = regime ? this.regimeMultipliers[regime] : {};
     const perfAdj: Record<string, number> = {};
-    for (const k of Object.keys(adapt)) perfAdj[k] = adapt[k] * this.perfMultiplier(k);
+    for (const k of Object.keys(adapt))
+      perfAdj[k] = adapt[k] * (regimeMult[k] ?? 1) * this.perfMultiplier(k);
     // 4) normaliza
     return this.normalizeWeights(perfAdj);
   }
@@ -229,6 +373,11 @@ export class EnsembleAdaptive {
     maxPositionPct = 0.5,
     minStopATRMultiple = 1.0,
     maxStopATRMultiple = 3.0,
+    validateData = true,
+    minDataScore = 0.8,
+    validation,
+    structureVeto = false,
+    regimeGating = true,
   }: EnsembleParams): DecisionOut {
     if (!timeframes?.length) {
       return {
@@ -245,13 +394,42 @@ export class EnsembleAdaptive {
     const tfVotes: TFVote[] = [];
     const tfWeightView: Array<{ tf: string; weight: number }> = [];
     const indicatorWeightSnapshot: Record<string, number> = {}; // último TF “execução” para logging
+    const dataQuality: NonNullable<DecisionOut["breakdown"]["dataQuality"]> = [];
 
     // 1) roda indicadores por TF
     for (const tf of timeframes) {
-      const tfW = tf.weight ?? this.tfAutoWeight(tf.label);
+      let tfW = tf.weight ?? this.tfAutoWeight(tf.label);
+
+      // 0) qualidade dos dados: recusa TF com erro grave, reduz peso proporcional ao score
+      if (validateData) {
+        const report = validateCandles(tf.candles, {
+          interval: tf.label,
+          ...validation,
+          ...tf.validation,
+        });
+        const refused = !report.ok || report.score < minDataScore;
+        dataQuality.push({
+          tf: tf.label,
+          ok: report.ok,
+          score: report.score,
+          counts: report.counts,
+          action: refused ? "refused" : report.score < 1 ? "downweighted" : "ok",
+        });
+        if (refused) continue;
+        tfW *= report.score;
+      }
       tfWeightView.push({ tf: tf.label, weight: tfW });
 
-      const wInd = this.buildIndicatorWeightsForTF(tf.label);
+      // regime do TF (uma vez por TF): gate dos pesos por indicador
+      const regime =
+        regimeGating && tf.candles.highs && tf.candles.lows
+          ? classifyRegime(
+              { highs: tf.candles.highs, lows: tf.candles.lows, closes: tf.candles.closes },
+              { confirmOnClose, ...tf.params?.regime },
+            )
+          : null;
+
+      const wInd = this.buildIndicatorWeightsForTF(tf.label, regime?.regime);
       // guardar snapshot dos pesos (para debug; última iteração prevalece)
       Object.assign(indicatorWeightSnapshot, wInd);
 
@@ -293,7 +471,13 @@ export class EnsembleAdaptive {
 
       // MACD
       try {
-        const res = MACDIndicator.decision({ candles, confirmOnClose } as any);
+        const res = MACDIndicator.decision({
+          candles,
+          confirmOnClose,
+          divergence: tf.params?.macd?.divergence,
+          pivotStrength: tf.params?.macd?.pivotStrength,
+          divergenceLookback: tf.params?.macd?.divergenceLookback,
+        } as any);
         votes.push({
           id: "macd",
           dir: dirNum(res.direction),
@@ -315,6 +499,9 @@ export class EnsembleAdaptive {
           slopeWindow: 3,
           recentBars: 3,
           atrPeriod: 14,
+          divergence: tf.params?.rsi?.divergence,
+          pivotStrength: tf.params?.rsi?.pivotStrength,
+          divergenceLookback: tf.params?.rsi?.divergenceLookback,
         } as any);
         votes.push({
           id: "rsi",
@@ -326,9 +513,44 @@ export class EnsembleAdaptive {
         //
       }
 
+      // Stochastic
+      try {
+        const res = StochasticIndicator.decision({
+          ...tf.params?.stochastic,
+          candles: { closes: candles.closes, highs: candles.highs!, lows: candles.lows! },
+          confirmOnClose,
+        });
+        votes.push({
+          id: "stochastic",
+          dir: dirNum(res.direction),
+          conf: res.score.confidence,
+          qual: res.score.quality,
+        });
+      } catch {
+        //
+      }
+
+      // StochRSI
+      try {
+        const res = StochRSIIndicator.decision({
+          ...tf.params?.stochrsi,
+          candles: { closes: candles.closes },
+          confirmOnClose,
+        });
+        votes.push({
+          id: "stochrsi",
+          dir: dirNum(res.direction),
+          conf: res.score.confidence,
+          qual: res.score.quality,
+        });
+      } catch {
+        //
+      }
+
       // Ichimoku
       try {
         const res = IchimokuIndicator.decision({
+          ...tf.params?.ichimoku,
           candles: { highs: candles.highs!, lows: candles.lows!, closes: candles.closes },
           confirmOnClose,
         } as any);
@@ -345,6 +567,7 @@ export class EnsembleAdaptive {
       // Alligator
       try {
         const res = WilliamsAlligatorIndicator.decision({
+          ...tf.params?.alligator,
           candles: { highs: candles.highs!, lows: candles.lows! },
           confirmOnClose,
         } as any);
@@ -366,14 +589,20 @@ export class EnsembleAdaptive {
             lows: candles.lows!,
             closes: candles.closes,
             volumes: candles.volumes ?? [],
+            times: candles.times,
           },
           confirmOnClose,
-        } as any);
+          anchor: tf.params?.vwap?.anchor,
+          session: tf.params?.vwap?.session ?? "utc-day",
+        });
+        const d = res.data as any;
         votes.push({
           id: "vwap",
           dir: dirNum(res.direction),
           conf: res.score.confidence,
           qual: res.score.quality,
+          stopLong: d?.stopLong,
+          stopShort: d?.stopShort,
         });
       } catch {
         //
@@ -382,9 +611,10 @@ export class EnsembleAdaptive {
       // Bollinger
       try {
         const res = BollingerBandsIndicator.decision({
-          candles: { closes: candles.closes },
+          ...tf.params?.bollinger,
+          candles: { closes: candles.closes, highs: candles.highs, lows: candles.lows },
           confirmOnClose,
-        } as any);
+        });
         votes.push({
           id: "bollinger",
           dir: dirNum(res.direction),
@@ -411,6 +641,133 @@ export class EnsembleAdaptive {
         //
       }
 
+      // Supertrend (linha = trailing stop)
+      try {
+        const res = SupertrendIndicator.decision({
+          ...tf.params?.supertrend,
+          candles: { closes: candles.closes, highs: candles.highs!, lows: candles.lows! },
+          confirmOnClose,
+        });
+        const d = res.data as any;
+        votes.push({
+          id: "supertrend",
+          dir: dirNum(res.direction),
+          conf: res.score.confidence,
+          qual: res.score.quality,
+          stopLong: d?.stopLong,
+          stopShort: d?.stopShort,
+          atr: d?.lastATR,
+        });
+      } catch {
+        //
+      }
+
+      // Parabolic SAR (SAR = trailing stop)
+      try {
+        const res = PSARIndicator.decision({
+          ...tf.params?.psar,
+          candles: { closes: candles.closes, highs: candles.highs!, lows: candles.lows! },
+          confirmOnClose,
+        });
+        const d = res.data as any;
+        votes.push({
+          id: "psar",
+          dir: dirNum(res.direction),
+          conf: res.score.confidence,
+          qual: res.score.quality,
+          stopLong: d?.stopLong,
+          stopShort: d?.stopShort,
+        });
+      } catch {
+        //
+      }
+
+      // Suporte/resistência (zonas de swing: stops e alvos estruturais)
+      try {
+        const res = SupportResistanceIndicator.decision({
+          ...tf.params?.sr,
+          candles: {
+            closes: candles.closes,
+            highs: candles.highs!,
+            lows: candles.lows!,
+            opens: candles.opens,
+          },
+          confirmOnClose,
+        });
+        const d = res.data as any;
+        votes.push({
+          id: "sr",
+          dir: dirNum(res.direction),
+          conf: res.score.confidence,
+          qual: res.score.quality,
+          stopLong: d?.stopLong,
+          stopShort: d?.stopShort,
+          targetLong: d?.targetLong,
+          targetShort: d?.targetShort,
+          atr: d?.lastATR,
+        });
+      } catch {
+        //
+      }
+
+      // Padrões de candle (price action) — exige opens
+      if (candles.opens?.length) {
+        try {
+          const res = CandlePatternIndicator.decision({
+            ...tf.params?.patterns,
+            candles: {
+              opens: candles.opens,
+              highs: candles.highs!,
+              lows: candles.lows!,
+              closes: candles.closes,
+            },
+            confirmOnClose,
+          });
+          votes.push({
+            id: "patterns",
+            dir: dirNum(res.direction),
+            conf: res.score.confidence,
+            qual: res.score.quality,
+          });
+        } catch {
+          //
+        }
+      }
+
+      // Estrutura de mercado (HH/HL/LH/LL, BOS/CHoCH)
+      let structure: TFVote["structure"];
+      try {
+        const res = MarketStructureIndicator.decision({
+          ...tf.params?.structure,
+          candles: {
+            closes: candles.closes,
+            highs: candles.highs!,
+            lows: candles.lows!,
+            times: candles.times,
+          },
+          confirmOnClose,
+        });
+        const d = res.data;
+        if (d?.ok) {
+          structure = {
+            trend: d.trend,
+            lastEvent: d.lastEvent
+              ? { type: d.lastEvent.type, direction: d.lastEvent.direction, time: d.lastEvent.time }
+              : undefined,
+          };
+        }
+        votes.push({
+          id: "structure",
+          dir: dirNum(res.direction),
+          conf: res.score.confidence,
+          qual: res.score.quality,
+          stopLong: d?.ok ? d.stopLong : undefined,
+          stopShort: d?.ok ? d.stopShort : undefined,
+        });
+      } catch {
+        //
+      }
+
       // Volume
       try {
         const res = VolumeIndicator.decision({
@@ -431,6 +788,124 @@ export class EnsembleAdaptive {
         //
       }
 
+      // Fluxo de volume (acumulação/distribuição): só com volumes
+      if (candles.volumes?.length) {
+        const flow = {
+          closes: candles.closes,
+          highs: candles.highs!,
+          lows: candles.lows!,
+          volumes: candles.volumes,
+        };
+
+        // OBV
+        try {
+          const res = OBVIndicator.decision({ ...tf.params?.obv, candles: flow, confirmOnClose });
+          votes.push({
+            id: "obv",
+            dir: dirNum(res.direction),
+            conf: res.score.confidence,
+            qual: res.score.quality,
+          });
+        } catch {
+          //
+        }
+
+        // Chaikin Money Flow
+        try {
+          const res = ChaikinMoneyFlowIndicator.decision({
+            ...tf.params?.cmf,
+            candles: flow,
+            confirmOnClose,
+          });
+          votes.push({
+            id: "cmf",
+            dir: dirNum(res.direction),
+            conf: res.score.confidence,
+            qual: res.score.quality,
+          });
+        } catch {
+          //
+        }
+
+        // Money Flow Index
+        try {
+          const res = MFIIndicator.decision({ ...tf.params?.mfi, candles: flow, confirmOnClose });
+          votes.push({
+            id: "mfi",
+            dir: dirNum(res.direction),
+            conf: res.score.confidence,
+            qual: res.score.quality,
+          });
+        } catch {
+          //
+        }
+
+        // Volume profile (POC/value area: voto + stops/alvos)
+        try {
+          const res = VolumeProfileIndicator.decision({
+            ...tf.params?.vprofile,
+            candles: { ...flow, times: candles.times },
+            confirmOnClose,
+          });
+          const d = res.data;
+          votes.push({
+            id: "vprofile",
+            dir: dirNum(res.direction),
+            conf: res.score.confidence,
+            qual: res.score.quality,
+            stopLong: d?.ok ? d.stopLong : undefined,
+            stopShort: d?.ok ? d.stopShort : undefined,
+            targetLong: d?.ok ? d.targetLong : undefined,
+            targetShort: d?.ok ? d.targetShort : undefined,
+          });
+        } catch {
+          //
+        }
+      }
+
+      // Funding (futuros)
+      if (candles.fundingRates?.length) {
+        try {
+          const res = FundingRateIndicator.decision({
+            ...tf.params?.funding,
+            candles: {
+              closes: candles.closes,
+              fundingRates: candles.fundingRates,
+              fundingTimes: candles.fundingTimes,
+              premium: candles.premium,
+            },
+            confirmOnClose,
+          });
+          votes.push({
+            id: "funding",
+            dir: dirNum(res.direction),
+            conf: res.score.confidence,
+            qual: res.score.quality,
+          });
+        } catch {
+          //
+        }
+      }
+
+      // Open interest (futuros)
+      if (candles.openInterest?.length) {
+        try {
+          const res = OpenInterestIndicator.decision({
+            ...tf.params?.oi,
+            candles: { closes: candles.closes, openInterest: candles.openInterest },
+            confirmOnClose,
+          });
+          votes.push({
+            id: "oi",
+            dir: dirNum(res.direction),
+            conf: res.score.confidence,
+            qual: res.score.quality,
+          });
+        } catch {
+          //
+        }
+      }
+
       // agregado do TF: usa pesos por indicador (wInd)
       const num = votes.reduce(
         (a, v) => a + v.dir * v.conf * (v.qual ?? QUALITY_DEFAULT) * (wInd[v.id] ?? 0),
@@ -443,22 +918,41 @@ export class EnsembleAdaptive {
         ) || 1;
       const tfScore = num / den;
 
-      tfVotes.push({ tf: tf.label, weight: tfW, votes, tfScore });
+      tfVotes.push({
+        tf: tf.label,
+        weight: tfW,
+        votes,
+        tfScore,
+        lastClose,
+        weights: wInd,
+        regime,
+        structure,
+      });
     }
 
     // 2) agregação entre TFs
     const totalW = tfVotes.reduce((a, t) => a + t.weight, 0) || 1;
     const ensembleScore = tfVotes.reduce((a, t) => a + t.weight * t.tfScore, 0) / totalW;
 
-    const finalDir: "buy" | "sell" | "none" =
+    const rawDir: "buy" | "sell" | "none" =
       ensembleScore >= buyThreshold ? "buy" : ensembleScore <= sellThreshold ? "sell" : "none";
 
+    // veto estrutural (opt-in): o TF de maior peso manda, como o regime HTF da EMA
+    const structTf = tfVotes
+      .filter((t) => t.structure)
+      .reduce<TFVote | null>((a, t) => (!a || t.weight > a.weight ? t : a), null);
+    const vetoed =
+      structureVeto &&
+      ((rawDir === "buy" && structTf?.structure?.trend === "bear") ||
+        (rawDir === "sell" && structTf?.structure?.trend === "bull"));
+    const finalDir = vetoed ? "none" : rawDir;
+
     // confiança e qualidade do ensemble
     const allVotes = tfVotes.flatMap((t) =>
       t.votes.map((v) => ({
         ...v,
         tfW: t.weight,
-        wInd: this.buildIndicatorWeightsForTF(t.tf)[v.id] ?? 0,
+        wInd: t.weights[v.id] ?? 0,
       })),
     );
     const conf = (() => {
@@ -482,6 +976,9 @@ export class EnsembleAdaptive {
       return q;
     })();
 
+    // preço de referência: primeiro TF aceito (TFs recusados por dados ruins não entram)
+    const refPrice = tfVotes.find((t) => Number.isFinite(t.lastClose))?.lastClose;
+
     // 3) stop-loss (mediana de candidatos + piso por ATR)
     let stopLoss: number | undefined;
     if (finalDir !== "none") {
@@ -503,37 +1000,43 @@ export class EnsembleAdaptive {
         stopLoss = stops.length % 2 ? stops[mid] : (stops[mid - 1] + stops[mid]) / 2;
       }
 
-      const refClose =
-        timeframes[0].candles.closes[
-          confirmOnClose
-            ? timeframes[0].candles.closes.length - 2
-            : timeframes[0].candles.closes.length - 1
-        ];
       const atrs = allVotes.map((v) => v.atr).filter((x) => typeof x === "number") as number[];
-      if (Number.isFinite(refClose) && atrs.length) {
+      if (refPrice != null && atrs.length) {
         const avgATR = atrs.reduce((a, b) => a + b, 0) / atrs.length;
         const minDist = this.clamp(minStopATRMultiple, 0.5, maxStopATRMultiple) * avgATR;
         if (stopLoss == null) {
-          stopLoss = finalDir === "buy" ? refClose - minDist : refClose + minDist;
+          stopLoss = finalDir === "buy" ? refPrice - minDist : refPrice + minDist;
         } else {
-          if (finalDir === "buy" && refClose - stopLoss < minDist) stopLoss = refClose - minDist;
-          if (finalDir === "sell" && stopLoss - refClose < minDist) stopLoss = refClose + minDist;
+          if (finalDir === "buy" && refPrice - stopLoss < minDist) stopLoss = refPrice - minDist;
+          if (finalDir === "sell" && stopLoss - refPrice < minDist) stopLoss = refPrice + minDist;
+        }
+      }
+    }
+
+    // 3b) alvos estruturais: candidatos na direção do trade; escolhe o mais próximo
+    const targets: Array<{ tf: string; id: string; target: number }> = [];
+    if (finalDir !== "none" && refPrice != null) {
+      for (const t of tfVotes) {
+        for (const v of t.votes) {
+          const target = finalDir === "buy" ? v.targetLong : v.targetShort;
+          if (target == null || !Number.isFinite(target)) continue;
+          if (finalDir === "buy" ? target > refPrice : target < refPrice)
+            targets.push({ tf: t.tf, id: v.id, target });
         }
       }
     }
+    const target = targets.length
+      ? targets.reduce((a, b) =>
+          Math.abs(b.target - refPrice!) < Math.abs(a.target - refPrice!) ? b : a,
+        ).target
+      : undefined;
 
     // 4) sizing (% do limite diário)
     let positionPctOfDailyLimit = 0;
     if (finalDir !== "none") {
-      const closesSample = timeframes
-        .map((tf) => tf.candles.closes)
-        .filter((c) => c?.length)
-        .map((c) => c[confirmOnClose ? c.length - 2 : c.length - 1])
-        .filter(Number.isFinite) as number[];
-      const priceRef = closesSample[0];
       const atrs = allVotes.map((v) => v.atr).filter((x) => typeof x === "number") as number[];
       const atrPct =
-        priceRef && atrs.length ? atrs.reduce((a, b) => a + b, 0) / atrs.length / priceRef : 0;
+        refPrice && atrs.length ? atrs.reduce((a, b) => a + b, 0) / atrs.length / refPrice : 0;
       const hi = tfVotes.filter((t) => t.weight >= 1.4);
       const hiAgree = hi.length
         ? hi.filter(
@@ -566,7 +1069,7 @@ export class EnsembleAdaptive {
             dir: v.dir,
             conf: v.conf,
             qual: v.qual ?? QUALITY_DEFAULT,
-            wInd: this.buildIndicatorWeightsForTF(t.tf)[v.id] ?? 0,
+            wInd: t.weights[v.id] ?? 0,
           })),
         ),
         stopBlend:
@@ -587,7 +1090,27 @@ export class EnsembleAdaptive {
                       stop: finalDir === "buy" ? v.stopLong : v.stopShort,
                     })),
                 ),
+                target,
+                targets,
               },
+        regimes: regimeGating
+          ? tfVotes.flatMap((t) => (t.regime ? [{ tf: t.tf, ...t.regime }] : []))
+          : undefined,
+        structure: {
+          tfs: tfVotes
+            .filter((t) => t.structure)
+            .map((t) => ({
+              tf: t.tf,
+              trend: t.structure!.trend,
+              lastEvent: t.structure!.lastEvent
+                ? `${t.structure!.lastEvent.type}-${t.structure!.lastEvent.direction}`
+                : undefined,
+              eventTime: t.structure!.lastEvent?.time,
+            })),
+          vetoTf: structureVeto ? structTf?.tf : undefined,
+          vetoed,
+        },
+        dataQuality: validateData ? dataQuality : undefined,
       },
     };
   }
@@ -0,0 +1,26 @@
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Duração (ms) de um intervalo no formato da Binance ("1m", "4h", "1d", "1w", "1M").
+// "M" maiúsculo é mês (aproximado em 30 dias); "D" é aceito como dia.
+export function intervalToMs(interval: string): number {
+  const match = /^(\d+)(s|m|h|d|D|w|M)$/.exec(String(interval).trim());
+  if (!match) throw new Error(`Intervalo inválido: ${interval}`);
+  const num = parseInt(match[1], 10);
+  switch (match[2]) {
+    case "s":
+      return num * 1000;
+    case "m":
+      return num * MINUTE;
+    case "h":
+      return num * HOUR;
+    case "d":
+    case "D":
+      return num * DAY;
+    case "w":
+      return num * 7 * DAY;
+    default:
+      return num * 30 * DAY;
+  }
+}
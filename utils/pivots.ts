@@ -0,0 +1,36 @@
+export type Pivot = { index: number; value: number };
+
+/**
+ * Pivôs (swing highs/lows): a barra i é pivô de alta se supera as `left` barras anteriores
+ * e não é superada pelas `right` seguintes (análogo p/ baixa). Só confirma pivôs com
+ * `right` barras já fechadas até `endIndex` (sem look-ahead).
+ */
+export function findPivots(
+  values: Array<number | null>,
+  left: number,
+  right = left,
+  endIndex = values.length - 1,
+): { highs: Pivot[]; lows: Pivot[] } {
+  const highs: Pivot[] = [];
+  const lows: Pivot[] = [];
+  for (let i = left; i + right <= endIndex; i++) {
+    const v = values[i];
+    if (v == null || !Number.isFinite(v)) continue;
+    let isHigh = true;
+    let isLow = true;
+    for (let j = i - left; j <= i + right && (isHigh || isLow); j++) {
+      if (j === i) continue;
+      const w = values[j];
+      if (w == null) {
+        isHigh = isLow = false;
+        break;
+      }
+      // empate à esquerda invalida; à direita, só valor maior/menor invalida
+      if (j < i ? w >= v : w > v) isHigh = false;
+      if (j < i ? w <= v : w < v) isLow = false;
+    }
+    if (isHigh) highs.push({ index: i, value: v });
+    if (isLow) lows.push({ index: i, value: v });
+  }
+  return { highs, lows };
+}
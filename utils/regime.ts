@@ -0,0 +1,125 @@
+import * as TI from "technicalindicators";
+import { ADXIndicator } from "../indicators/adx";
+import { BollingerBandsIndicator } from "../indicators/bollinger-bands";
+import { padLeft } from "./pad-left";
+
+export type MarketRegime = "trending" | "ranging" | "volatile";
+
+export type RegimeParams = {
+  confirmOnClose?: boolean; // true: usa última barra fechada (default)
+  adxPeriod?: number; // default 14
+  bbPeriod?: number; // default 20
+  chopPeriod?: number; // Choppiness Index (default 14)
+  atrPeriod?: number; // default 14
+  lookback?: number; // janela dos percentis de ATR (default 100)
+  trendThreshold?: number; // força de tendência mínima p/ "trending" (default 0.5)
+  volatileATRPctile?: number; // ATR acima deste percentil = "volatile" (default 0.9)
+};
+
+export type RegimeReport = {
+  regime: MarketRegime;
+  trendStrength: number; // 0..1 (0 = lateral, 1 = tendência clara)
+  adx: number;
+  chop: number; // 0..100 (<38.2 tendência, >61.8 lateral)
+  bbWidthPctile: number; // 0..1 (0 = bandas no mais estreito do lookback)
+  atrPctile: number; // 0..1
+};
+
+function clamp01(x: number) {
+  return Math.max(0, Math.min(1, x));
+}
+
+// posição de `v` entre os valores (0 = menor, 1 = maior)
+function percentileRank(values: number[], v: number) {
+  if (values.length < 2) return 0.5;
+  const below = values.filter((x) => x < v).length;
+  return below / (values.length - 1);
+}
+
+/**
+ * Classifica o regime do TF combinando ADX, percentil da largura de Bollinger,
+ * Choppiness Index e percentil do ATR. Devolve null com dados insuficientes.
+ * - volatile: ATR no topo do histórico sem tendência definida (expansão desordenada)
+ * - trending: média das evidências de tendência >= trendThreshold
+ * - ranging: caso contrário
+ */
+export function classifyRegime(
+  candles: { highs: number[]; lows: number[]; closes: number[] },
+  {
+    confirmOnClose = true,
+    adxPeriod = 14,
+    bbPeriod = 20,
+    chopPeriod = 14,
+    atrPeriod = 14,
+    lookback = 100,
+    trendThreshold = 0.5,
+    volatileATRPctile = 0.9,
+  }: RegimeParams = {},
+): RegimeReport | null {
+  const { highs, lows, closes } = candles;
+  const len = Math.min(highs.length, lows.length, closes.length);
+  const lastIndex = confirmOnClose ? len - 2 : len - 1;
+  if (lastIndex < Math.max(adxPeriod * 2, bbPeriod, chopPeriod, atrPeriod) + 1) return null;
+
+  const adxRes = ADXIndicator.calculate({
+    candles: { highs, lows, closes },
+    period: adxPeriod,
+    confirmOnClose,
+  });
+  const bbRes = BollingerBandsIndicator.calculate({
+    candles: { highs, lows, closes },
+    period: bbPeriod,
+    confirmOnClose,
+  });
+  if (!adxRes.ok || !bbRes.ok || adxRes.last.adx == null) return null;
+
+  // True range por barra (Choppiness usa ATR(1) somado) e ATR p/ percentil
+  const tr: number[] = [highs[0] - lows[0]];
+  for (let i = 1; i < len; i++) {
+    tr.push(
+      Math.max(
+        highs[i] - lows[i],
+        Math.abs(highs[i] - closes[i - 1]),
+        Math.abs(lows[i] - closes[i - 1]),
+      ),
+    );
+  }
+
+  // Choppiness Index: 100 * log10(ΣTR / (máx − mín)) / log10(n)
+  let sumTR = 0;
+  let hh = -Infinity;
+  let ll = Infinity;
+  for (let i = lastIndex - chopPeriod + 1; i <= lastIndex; i++) {
+    sumTR += tr[i];
+    hh = Math.max(hh, highs[i]);
+    ll = Math.min(ll, lows[i]);
+  }
+  const chop = hh > ll ? (100 * Math.log10(sumTR / (hh - ll))) / Math.log10(chopPeriod) : 100;
+
+  const atr = padLeft(
+    len,
+    TI.ATR.calculate({ high: highs, low: lows, close: closes, period: atrPeriod }),
+  );
+  const atrWindow: number[] = [];
+  for (let i = Math.max(0, lastIndex - lookback + 1); i <= lastIndex; i++) {
+    const a = atr[i];
+    if (a != null) atrWindow.push(a);
+  }
+  const lastATR = atr[lastIndex];
+  const atrPctile = lastATR != null ? percentileRank(atrWindow, lastATR) : 0.5;
+
+  const adx = adxRes.last.adx;
+  const bbWidthPctile = bbRes.widthPctRank;
+
+  // Evidências de tendência normalizadas em 0..1
+  const adxScore = clamp01((adx - 15) / 20); // 15 → 0, 35 → 1
+  const chopScore = clamp01((61.8 - chop) / (61.8 - 38.2));
+  const trendStrength = (adxScore + chopScore + bbWidthPctile) / 3;
+
+  let regime: MarketRegime;
+  if (atrPctile >= volatileATRPctile && trendStrength < 0.7) regime = "volatile";
+  else if (trendStrength >= trendThreshold) regime = "trending";
+  else regime = "ranging";
+
+  return { regime, trendStrength, adx, chop, bbWidthPctile, atrPctile };
+}
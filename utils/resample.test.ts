@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { Kline } from "../binance.js";
+import { resampleKlines, resampleSessionKlines } from "./resample";
+
+const MIN = 60_000;
+const T0 = Date.UTC(2025, 0, 1);
+
+const bar = (i: number): Kline => ({
+  openTime: T0 + i * MIN,
+  open: i,
+  high: i,
+  low: i,
+  close: i,
+  volume: 1,
+  closeTime: T0 + (i + 1) * MIN - 1,
+});
+
+test("bucket com barras base faltando no meio é marcado como parcial", () => {
+  // 0..4 completo; 5..9 sem a barra 7 (gap da exchange)
+  const rows = [0, 1, 2, 3, 4, 5, 6, 8, 9].map(bar);
+  const out = resampleKlines(rows, "5m", { baseInterval: "1m" });
+  assert.deepEqual(
+    out.map((r) => r.partial),
+    [false, true],
+  );
+  assert.equal(out[1].volume, 4);
+});
+
+test("B3: buckets intradiários ancorados na abertura do pregão", () => {
+  const HOUR = 60 * MIN;
+  // dois pregões (13h–20h UTC), barras de 1h como as da brapi (closeTime = open + 1h)
+  const rows: Kline[] = [];
+  for (const day of [Date.UTC(2025, 0, 6), Date.UTC(2025, 0, 7)]) {
+    for (let h = 13; h < 20; h++) {
+      const openTime = day + h * HOUR;
+      rows.push({ ...bar(0), openTime, closeTime: openTime + HOUR });
+    }
+  }
+  const out = resampleSessionKlines(rows, "4h", { baseInterval: "1h", session: "b3" });
+  assert.deepEqual(
+    out.map((r) => [new Date(r.openTime).getUTCHours(), r.partial]),
+    [
+      [13, false],
+      [17, false], // fim do pregão: 3 barras cobrem o bucket inteiro
+      [13, false],
+      [17, true], // pregão corrente: fechamento ainda desconhecido
+    ],
+  );
+});
+
+test("B3: 3d agrega três pregões, atravessando o fim de semana", () => {
+  const DAY = 24 * 60 * MIN;
+  const weekdays = [6, 7, 8, 9, 10, 13, 14, 15].map((d) => Date.UTC(2025, 0, d, 13)); // seg..qua
+  const rows = weekdays.map((openTime) => ({ ...bar(0), openTime, closeTime: openTime + DAY }));
+  const out = resampleSessionKlines(rows, "3d", { baseInterval: "1d", session: "b3" });
+  assert.ok(out.every((r, i) => !r.partial || i === out.length - 1));
+  assert.ok(out.slice(0, -1).every((r) => r.volume === 3));
+});
@@ -0,0 +1,235 @@
+import type { Kline } from "../binance.js";
+import type { CandlesOut } from "../get-candles";
+import { intervalToMs } from "./interval";
+import { sessionKey, sessionStart, type TradingSession } from "./session";
+
+export type ResampledKline = Kline & { partial: boolean };
+
+const DAY = 24 * 60 * 60_000;
+// 01/01/1970 foi quinta-feira; as semanas da Binance começam na segunda (+4 dias)
+const WEEK_OFFSET = 4 * DAY;
+
+// Abertura do bucket do intervalo alvo que contém `t` (alinhado em UTC como na Binance)
+export function bucketStart(t: number, interval: string): number {
+  if (interval.endsWith("M")) {
+    const n = parseInt(interval, 10);
+    const d = new Date(t);
+    const months = d.getUTCFullYear() * 12 + d.getUTCMonth();
+    const start = months - (months % n);
+    return Date.UTC(Math.floor(start / 12), start % 12, 1);
+  }
+  const ms = intervalToMs(interval);
+  if (interval.endsWith("w")) return Math.floor((t - WEEK_OFFSET) / ms) * ms + WEEK_OFFSET;
+  return Math.floor(t / ms) * ms;
+}
+
+// Abertura do bucket seguinte (meses têm duração variável)
+export function nextBucketStart(start: number, interval: string): number {
+  return bucketCloseTime(start, interval) + 1;
+}
+
+function bucketCloseTime(start: number, interval: string): number {
+  if (interval.endsWith("M")) {
+    const n = parseInt(interval, 10);
+    const d = new Date(start);
+    return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + n, 1) - 1;
+  }
+  return start + intervalToMs(interval) - 1;
+}
+
+/**
+ * Agrega uma série base num intervalo maior: open=primeiro, high=máx, low=mín,
+ * close=último, volume=soma. Barras alinhadas às fronteiras da exchange; `partial`
+ * marca buckets que não cobrem o intervalo inteiro (tipicamente a última barra) ou
+ * que têm menos barras base que o esperado (gaps internos da exchange).
+ */
+export function resampleKlines(
+  rows: Kline[],
+  targetInterval: string,
+  {
+    baseInterval,
+    dropIncompleteFirst = true,
+  }: { baseInterval?: string; dropIncompleteFirst?: boolean } = {},
+): ResampledKline[] {
+  let baseMs: number | undefined;
+  if (baseInterval) {
+    baseMs = intervalToMs(baseInterval);
+    const targetMs = intervalToMs(targetInterval);
+    const divisible = targetInterval.endsWith("M") ? baseMs <= DAY : targetMs % baseMs === 0;
+    if (targetMs < baseMs || !divisible) {
+      throw new Error(`Não é possível agregar ${baseInterval} em ${targetInterval}.`);
+    }
+  }
+
+  const out: ResampledKline[] = [];
+  let first: Kline | undefined; // primeira barra base do bucket corrente
+  let count = 0; // barras base no bucket corrente
+  // sem baseInterval, a duração da barra base sai da própria barra
+  const expectedBars = (bucket: Kline, r: Kline) =>
+    Math.round((bucket.closeTime - bucket.openTime + 1) / (baseMs ?? r.closeTime - r.openTime + 1));
+  for (const r of rows) {
+    const start = bucketStart(r.openTime, targetInterval);
+    const cur = out[out.length - 1];
+    if (cur && cur.openTime === start) {
+      cur.high = Math.max(cur.high, r.high);
+      cur.low = Math.min(cur.low, r.low);
+      cur.close = r.close;
+      cur.volume += r.volume;
+      count++;
+      cur.partial =
+        first!.openTime > start || r.closeTime < cur.closeTime || count < expectedBars(cur, r);
+      continue;
+    }
+    first = r;
+    count = 1;
+    const closeTime = bucketCloseTime(start, targetInterval);
+    out.push({
+      openTime: start,
+      open: r.open,
+      high: r.high,
+      low: r.low,
+      close: r.close,
+      volume: r.volume,
+      closeTime,
+      partial: r.openTime > start || r.closeTime < closeTime,
+    });
+  }
+
+  // o primeiro bucket costuma começar no meio (janela cortada): OHLC enganoso
+  if (dropIncompleteFirst && out.length && out[0].partial) out.shift();
+  return out;
+}
+
+// dias úteis acumulados a partir de uma quinta-feira (01/01/1970): qui, sex, sáb, dom, seg, ter, qua
+const WEEKDAYS_BEFORE = [0, 1, 2, 2, 2, 3, 4];
+
+// índice do pregão contando só dias úteis desde a época (feriados não são conhecidos)
+function tradingDayIndex(day: number) {
+  return Math.floor(day / 7) * 5 + WEEKDAYS_BEFORE[((day % 7) + 7) % 7];
+}
+
+/**
+ * Agregação para mercados com pregão (ex.: B3), em vez das fronteiras UTC da exchange:
+ * - intradiário: buckets ancorados na abertura do pregão (horário mais comum da 1ª barra
+ *   das sessões); o último bucket da sessão termina no fechamento
+ * - diário ou maior (ex.: 3d): N pregões por barra, contados em dias úteis
+ * `partial` marca buckets com menos barras base que o esperado (gaps, feriados, bucket em curso).
+ */
+export function resampleSessionKlines(
+  rows: Kline[],
+  targetInterval: string,
+  {
+    baseInterval,
+    session,
+    dropIncompleteFirst = true,
+  }: { baseInterval: string; session: TradingSession; dropIncompleteFirst?: boolean },
+): ResampledKline[] {
+  const baseMs = intervalToMs(baseInterval);
+  const targetMs = intervalToMs(targetInterval);
+  const multiDay = targetMs >= DAY;
+  if (targetMs < baseMs || targetMs % baseMs !== 0 || (multiDay && baseMs !== DAY)) {
+    throw new Error(`Não é possível agregar ${baseInterval} em ${targetInterval}.`);
+  }
+
+  const sessions: Kline[][] = [];
+  let key: number | null = null;
+  for (const r of rows) {
+    const k = sessionKey(r.openTime, session);
+    if (k !== key) sessions.push([]);
+    key = k;
+    sessions[sessions.length - 1].push(r);
+  }
+
+  const out: ResampledKline[] = [];
+  const pushBucket = (group: Kline[], openTime: number, closeTime: number, expected: number) => {
+    const last = group[group.length - 1];
+    out.push({
+      openTime,
+      open: group[0].open,
+      high: Math.max(...group.map((r) => r.high)),
+      low: Math.min(...group.map((r) => r.low)),
+      close: last.close,
+      volume: group.reduce((a, r) => a + r.volume, 0),
+      closeTime,
+      partial: group.length < expected || group[0].openTime > openTime,
+    });
+  };
+
+  if (multiDay) {
+    const n = Math.round(targetMs / DAY);
+    let group: Kline[] = [];
+    let groupIdx: number | null = null;
+    const flush = () => {
+      if (!group.length) return;
+      pushBucket(group, group[0].openTime, group[group.length - 1].closeTime, n);
+      group = [];
+    };
+    for (const s of sessions) {
+      const idx = Math.floor(tradingDayIndex(sessionKey(s[0].openTime, session)) / n);
+      if (idx !== groupIdx) flush();
+      groupIdx = idx;
+      group.push(...s);
+    }
+    flush();
+  } else {
+    // horário de abertura mais frequente (a 1ª sessão da janela costuma vir cortada)
+    const freq = new Map<number, number>();
+    for (const s of sessions) {
+      const off = s[0].openTime - sessionStart(s[0].openTime, session);
+      freq.set(off, (freq.get(off) ?? 0) + 1);
+    }
+    const openOffset = [...freq.entries()].reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+
+    sessions.forEach((s, si) => {
+      const anchor = Math.min(s[0].openTime, sessionStart(s[0].openTime, session) + openOffset);
+      // só sabemos o fechamento de sessões já encerradas (há uma sessão depois)
+      const sessionClose = si < sessions.length - 1 ? s[s.length - 1].closeTime : Infinity;
+      const buckets = new Map<number, Kline[]>();
+      for (const r of s) {
+        const idx = Math.floor((r.openTime - anchor) / targetMs);
+        buckets.set(idx, [...(buckets.get(idx) ?? []), r]);
+      }
+      for (const [idx, group] of buckets) {
+        const openTime = anchor + idx * targetMs;
+        const closeTime = Math.min(openTime + targetMs - 1, sessionClose);
+        pushBucket(group, openTime, closeTime, Math.round((closeTime - openTime + 1) / baseMs));
+      }
+    });
+  }
+
+  if (dropIncompleteFirst && out.length && out[0].partial) out.shift();
+  return out;
+}
+
+/**
+ * Mesmo que resampleKlines, partindo de `CandlesOut` (times = closeTime das barras base).
+ * `lastPartial` indica se a última barra agregada ainda não está completa.
+ */
+export function resampleCandles(
+  candles: CandlesOut,
+  baseInterval: string,
+  targetInterval: string,
+  opts: { dropIncompleteFirst?: boolean } = {},
+): CandlesOut & { lastPartial: boolean } {
+  const baseMs = intervalToMs(baseInterval);
+  const rows: Kline[] = candles.times.map((closeTime, i) => ({
+    openTime: closeTime - baseMs + 1,
+    open: candles.opens[i],
+    high: candles.highs[i],
+    low: candles.lows[i],
+    close: candles.closes[i],
+    volume: candles.volumes[i],
+    closeTime,
+  }));
+  const agg = resampleKlines(rows, targetInterval, { baseInterval, ...opts });
+  return {
+    opens: agg.map((r) => r.open),
+    closes: agg.map((r) => r.close),
+    highs: agg.map((r) => r.high),
+    lows: agg.map((r) => r.low),
+    volumes: agg.map((r) => r.volume),
+    times: agg.map((r) => r.closeTime),
+    length: agg.length,
+    lastPartial: agg.length ? agg[agg.length - 1].partial : false,
+  };
+}
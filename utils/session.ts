@@ -0,0 +1,19 @@
+export type TradingSession = "utc-day" | "b3";
+
+const DAY_MS = 24 * 60 * 60_000;
+// toda sessão é um dia de negociação (com o offset do mercado)
+export const SESSION_MS = DAY_MS;
+const SESSION_OFFSET_MS: Record<TradingSession, number> = {
+  "utc-day": 0,
+  b3: -3 * 60 * 60_000, // pregão da B3 em horário de Brasília (UTC-3)
+};
+
+/** Identificador do dia de negociação de um timestamp (mesma chave = mesma sessão). */
+export function sessionKey(time: number, session: TradingSession) {
+  return Math.floor((time + SESSION_OFFSET_MS[session]) / DAY_MS);
+}
+
+/** Início (ms, UTC) do dia de negociação que contém `time`. */
+export function sessionStart(time: number, session: TradingSession) {
+  return sessionKey(time, session) * DAY_MS - SESSION_OFFSET_MS[session];
+}